@@ -0,0 +1,251 @@
+import { ConfigError } from './errors/config-error';
+import { AuthorizationPolicies } from './types/authorization-types';
+import { AppConfig } from './types/config-types';
+import { KeyConfig } from './types/keyring-types';
+import { isTrue } from './utils/lib';
+
+/** Stage where missing secrets prevent the service from starting */
+const PRODUCTION_STAGE = 'prod';
+
+/** Log levels understood by the logger */
+const LOG_LEVELS = ['error', 'warn', 'info', 'debug'];
+
+/** Durations accepted by `jsonwebtoken` for `expiresIn` (a number with a unit, e.g. "10m") */
+const DURATION =
+  /^\d+(\.\d+)?\s*(ms|msecs?|milliseconds?|s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?|y|yrs?|years?)$/i;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Creates the readers of one environment, collecting every problem instead of failing on the first one
+ *
+ * @internal
+ */
+function createEnvReader(env: Env) {
+  const problems: string[] = [];
+
+  /** Empty values (e.g. `${env:X, ''}` in serverless.yml) count as unset */
+  const read = (name: string): string | undefined => env[name]?.trim() || undefined;
+
+  return {
+    problems,
+
+    string: (name: string, fallback: string): string => read(name) ?? fallback,
+
+    optionalString: (name: string): string | undefined => read(name),
+
+    boolean: (name: string): boolean => isTrue(read(name)),
+
+    /**
+     * Reads a number, at least `min`
+     */
+    number: (name: string, fallback: number, min = 0): number => {
+      const value = read(name);
+      if (value === undefined) {
+        return fallback;
+      }
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < min) {
+        problems.push(`${name} must be a number >= ${min}, got '${value}'`);
+        return fallback;
+      }
+      return parsed;
+    },
+
+    /**
+     * Reads one of a list of values
+     */
+    oneOf: (name: string, fallback: string, values: string[]): string => {
+      const value = read(name) ?? fallback;
+      if (!values.includes(value)) {
+        problems.push(`${name} must be one of ${values.join(', ')}, got '${value}'`);
+        return fallback;
+      }
+      return value;
+    },
+
+    /**
+     * Reads a JSON value, checked by `isValid`
+     */
+    json: <T>(name: string, isValid: (value: unknown) => value is T, expected: string): T | undefined => {
+      const value = read(name);
+      if (value === undefined) {
+        return undefined;
+      }
+      try {
+        const parsed: unknown = JSON.parse(value);
+        if (isValid(parsed)) {
+          return parsed;
+        }
+      } catch {
+        // Reported below, like values of the wrong shape
+      }
+      problems.push(`${name} must be ${expected}`);
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Checks the shape of `CLIENT_AUTH_KEYS`. Key material is validated when the keyring loads it.
+ *
+ * @internal
+ */
+const isKeyConfigList = (value: unknown): value is KeyConfig[] =>
+  Array.isArray(value) &&
+  value.every(
+    (key: Partial<KeyConfig> | null) =>
+      typeof key === 'object' &&
+      key !== null &&
+      typeof key.kid === 'string' &&
+      ['HS256', 'RS256', 'ES256', 'EdDSA'].includes(key.alg as string)
+  );
+
+/**
+ * Checks the shape of `SHAREABLE_POLICIES`
+ *
+ * @internal
+ */
+const isAuthorizationPolicies = (value: unknown): value is AuthorizationPolicies =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (policy) =>
+      typeof policy === 'object' &&
+      policy !== null &&
+      Object.values(policy as object).every(
+        (rule: unknown) =>
+          typeof rule === 'boolean' ||
+          (typeof rule === 'object' &&
+            rule !== null &&
+            Array.isArray((rule as { channels?: unknown }).channels) &&
+            (rule as { channels: unknown[] }).channels.every((channel) => typeof channel === 'string'))
+      )
+  );
+
+/**
+ * Parses and validates the configuration of the service from its environment (see `serverless.yml`)
+ *
+ * Every variable is read here, once per cold start, and handed to the `Create*` factories: the rest of
+ * the code never reads `process.env`. All problems are reported at once:
+ * - Malformed values (numbers, JSON, durations...) are always rejected
+ * - Signing keys (`CLIENT_AUTH_KEYS` or `CLIENT_AUTH_SECRET`) are always required
+ * - Core API settings are only required in `prod`, so the service can start offline without a backend: elsewhere,
+ *   `coreApi` creates its HTTP client on the first core API request, which fails when they are missing
+ *
+ * @param env - The environment to read, `process.env` by default
+ * @returns The typed configuration
+ * @throws {ConfigError} Listing every missing or invalid variable
+ *
+ * @example
+ * ```typescript
+ * const config = loadConfig({ STAGE: 'dev', CLIENT_AUTH_SECRET: 'secret' });
+ * config.websocket.connectionsTtlSeconds; // => 86400
+ * ```
+ */
+export function loadConfig(env: Env = process.env): AppConfig {
+  const reader = createEnvReader(env);
+  const { problems } = reader;
+
+  const stage = reader.string('STAGE', 'dev');
+  const isOffline = reader.boolean('IS_OFFLINE');
+  const wsPort = reader.number('OFFLINE_WS_PORT', 6001, 1);
+
+  const config: AppConfig = {
+    stage,
+    isOffline,
+    logLevel: reader.oneOf('LOG_LEVEL', 'info', LOG_LEVELS),
+    httpBasePath: reader.string('HTTP_BASE_PATH', ''),
+    offline: {
+      httpPort: reader.number('OFFLINE_HTTP_PORT', 6000, 1),
+      wsPort
+    },
+    coreApi: {
+      baseUrl: reader.optionalString('AGENTICFLO_BASE_URL'),
+      backplaneToken: reader.optionalString('AGENTICFLO_BACKPLANE_TOKEN'),
+      requestTimeoutMs: reader.number('AGENTICFLO_REQUEST_TIMEOUT', 10000, 1),
+      streamIdleTimeoutMs: reader.number('AGENTICFLO_STREAM_IDLE_TIMEOUT', 30000, 1),
+      tlsInsecure: reader.boolean('AGENTICFLO_TLS_INSECURE'),
+      streaming: reader.boolean('AGENTICFLO_STREAMING')
+    },
+    circuitBreaker: {
+      failureThreshold: reader.number('CIRCUIT_BREAKER_FAILURE_THRESHOLD', 5),
+      resetTimeoutSeconds: reader.number('CIRCUIT_BREAKER_RESET_SECONDS', 30, 1)
+    },
+    clientAuth: {
+      keys: reader.json('CLIENT_AUTH_KEYS', isKeyConfigList, 'a JSON array of { kid, alg, ... } keys') ?? [],
+      legacySecret: reader.optionalString('CLIENT_AUTH_SECRET'),
+      signingKid: reader.optionalString('CLIENT_AUTH_SIGNING_KID'),
+      defaultTtl: reader.string('DEFAULT_CLIENT_AUTH_TTL', '10m'),
+      refreshGraceSeconds: reader.number('CLIENT_AUTH_REFRESH_GRACE_SECONDS', 300),
+      maxSessionSeconds: reader.number('CLIENT_AUTH_MAX_SESSION_SECONDS', 43200, 1)
+    },
+    websocket: {
+      connectionsTable: reader.string('WS_CONNECTIONS_TABLE', 'shareable-api-connections'),
+      connectionsTtlSeconds: reader.number('WS_CONNECTIONS_TTL', 24, 1) * 60 * 60,
+      connectAuthRequired: reader.boolean('WS_CONNECT_AUTH_REQUIRED'),
+      authDeadlineSeconds: reader.number('WS_AUTH_DEADLINE_SECONDS', 60),
+      apiEndpoint: isOffline ? `http://localhost:${wsPort}` : reader.optionalString('WEBSOCKET_API_ENDPOINT')
+    },
+    configurationCache: {
+      ttlSeconds: reader.number('CONFIG_CACHE_TTL_SECONDS', 60),
+      negativeTtlSeconds: reader.number('CONFIG_CACHE_NEGATIVE_TTL_SECONDS', 10),
+      maxEntries: reader.number('CONFIG_CACHE_MAX_ENTRIES', 1000, 1),
+      shared: reader.boolean('CONFIG_CACHE_SHARED'),
+      table: reader.string('CONFIG_CACHE_TABLE', 'shareable-api-config-cache')
+    },
+    idempotency: {
+      table: reader.string('IDEMPOTENCY_TABLE', 'shareable-api-idempotency'),
+      windowSeconds: reader.number('IDEMPOTENCY_WINDOW_SECONDS', 86400, 1)
+    },
+    sessionEvents: {
+      table: reader.string('SESSION_EVENTS_TABLE', 'shareable-api-session-events'),
+      ttlSeconds: reader.number('SESSION_EVENTS_TTL_SECONDS', 3600, 1),
+      sseMaxDurationSeconds: reader.number('SSE_MAX_DURATION_SECONDS', 50, 1),
+      ssePollIntervalMs: reader.number('SSE_POLL_INTERVAL_MS', 250, 10)
+    },
+    revocations: {
+      table: reader.string('TOKEN_REVOCATIONS_TABLE', 'shareable-api-revocations')
+    },
+    authorization: {
+      policies: reader.json('SHAREABLE_POLICIES', isAuthorizationPolicies, 'a JSON object of capability policies')
+    },
+    slack: {
+      webhookUrl: reader.optionalString('SLACK_WEBHOOK_URL')
+    }
+  };
+
+  if (!DURATION.test(config.clientAuth.defaultTtl)) {
+    problems.push(
+      `DEFAULT_CLIENT_AUTH_TTL must be a duration with a unit (e.g. '10m'), got '${config.clientAuth.defaultTtl}'`
+    );
+  }
+
+  if (!config.clientAuth.keys.length && !config.clientAuth.legacySecret) {
+    problems.push('CLIENT_AUTH_KEYS or CLIENT_AUTH_SECRET is required');
+  }
+
+  if (stage === PRODUCTION_STAGE) {
+    if (!config.coreApi.baseUrl) {
+      problems.push('AGENTICFLO_BASE_URL is required');
+    }
+    if (!config.coreApi.backplaneToken) {
+      problems.push('AGENTICFLO_BACKPLANE_TOKEN is required');
+    }
+    if (!config.websocket.apiEndpoint) {
+      problems.push('WEBSOCKET_API_ENDPOINT is required');
+    }
+  }
+
+  if (problems.length) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+/**
+ * Configuration of the running service, loaded at cold start: an invalid environment fails the
+ * first invocation instead of a random request later on
+ */
+export const config = loadConfig();
@@ -0,0 +1,11 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { connectionSweeper } from './services/connection-sweeper';
+import { withCorrelationId } from './utils/correlation';
+
+/**
+ * Scheduled Lambda handler closing WebSocket connections that did not authenticate within
+ * `WS_AUTH_DEADLINE_SECONDS` (see `connectionSweeper`).
+ * The scheduled event ID is used as correlation ID of the sweep.
+ */
+export const handler = (event: ScheduledEvent): Promise<{ closed: number }> =>
+  withCorrelationId(event.id, async () => ({ closed: await connectionSweeper.sweep() }));
@@ -0,0 +1,14 @@
+/**
+ * Codes set in the `details.code` of `HttpCodedError`s, for callers to tell these errors apart.
+ * Kept apart from the services raising them, so checking a code does not load these services.
+ */
+
+/** Error code of the 503 returned while a circuit is open */
+export const CIRCUIT_OPEN_CODE = 'CIRCUIT_OPEN';
+
+/** Error code of streamed replies cancelled through `cancelWebchatMessage` */
+export const STREAM_CANCELLED_CODE = 'STREAM_CANCELLED';
+/** Error code of streamed replies stopped by their consumer, e.g. because the client is gone */
+export const STREAM_ABORTED_CODE = 'STREAM_ABORTED';
+/** Error code of streamed replies that failed midway or were cut short */
+export const STREAM_FAILED_CODE = 'STREAM_FAILED';
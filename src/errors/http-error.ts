@@ -1,6 +1,10 @@
+import { FieldError } from '../types/response-types';
+
 export type ErrorDetails = {
   code?: string;
   backendMessage?: string;
+  fields?: FieldError[];
+  retryAfterSeconds?: number; // Sent as the `Retry-After` header of HTTP responses
 };
 
 export class HttpCodedError extends Error {
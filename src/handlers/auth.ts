@@ -1,9 +1,13 @@
-import { RequestEvent } from '../types/request-types';
+import { AuthenticateRequest, RefreshTokenRequest, RequestEvent } from '../types/request-types';
 import { coreApi } from '../services/core-api';
 import { connectionManager } from '../services/connection-manager';
+import { connectionAuthenticator } from '../services/connection-auth';
+import { keyring } from '../services/keyring';
+import { tokenService } from '../services/transient-token';
 import { HttpCodedError } from '../errors/http-error';
 import { HttpStatusCode } from 'axios';
 import logger from '../utils/logger';
+import { enforceOriginPolicy } from '../utils/origin';
 
 /**
  * Authentication module for WebSocket connections
@@ -13,24 +17,31 @@ export const authModule = {
   /**
    * Authenticate a WebSocket connection
    *
-   * This handler processes the authenticate command sent by WebSocket clients.
-   * It validates the provided shareable token with the backend (just like HTTP /resource/get),
-   * fetches the resource configuration, and updates the connection record.
+   * This handler processes the authenticate command sent by WebSocket clients, with either:
+   * - `token`: the shareable token, validated with the backend (just like HTTP /resource/get),
+   *   which returns the resource configuration
+   * - `authToken`: a transient JWT from `resource/get` or `auth/refresh`, verified locally with
+   *   `tokenService.verify`, so clients that already hold one do not need the shareable token
    *
    * Expected message format:
    * {
    *   command: "authenticate",
-   *   token: "shareable-token-here",
+   *   token?: "shareable-token-here",
+   *   authToken?: "transient-token-here",
    *   sessionId?: "optional-session-id"
    * }
    *
    * Unlike HTTP which returns a transient JWT, WebSocket connections are stateful,
    * so the shareable context is stored in the connection record for subsequent messages.
+   * When authenticated with `authToken`, the connection also stores the token expiry: later
+   * commands are refused once it lapses, until the client authenticates again (e.g. after `auth/refresh`).
    *
-   * @param event - The request event containing the shareable token
-   * @returns Success message with resource configuration
-   * @throws {HttpCodedError} 400 - If token is missing from the request
+   * @param event - The request event containing the shareable token or the transient token
+   * @returns Success message with resource configuration, and `expiresAt` when authenticated with `authToken`
+   * @throws {HttpCodedError} 400 - If both token and authToken are missing from the request
    * @throws {HttpCodedError} 400 - If token is invalid or expired
+   * @throws {HttpCodedError} 401 - If authToken is invalid, revoked or expired
+   * @throws {HttpCodedError} 403 - If the shareable does not allow the origin of the connection (`ORIGIN_NOT_ALLOWED`)
    * @throws {HttpCodedError} 500 - If connection update fails
    */
   authenticate: async (event: RequestEvent) => {
@@ -40,31 +51,25 @@ export const authModule = {
       throw new HttpCodedError(HttpStatusCode.InternalServerError, 'No connection ID found');
     }
 
-    // Extract shareable token from message body
-    const { token, sessionId } = event.parsedBody as { token?: string; sessionId?: string };
+    // Extract shareable token or transient token from message body
+    const { token, authToken, sessionId } = event.parsedBody as Partial<AuthenticateRequest>;
 
-    if (!token) {
-      logger.error(`Authentication attempt without token for connection ${connectionId}`);
-      throw new HttpCodedError(HttpStatusCode.BadRequest, 'Token is required');
-    }
-
-    // Fetch and validate the resource configuration from backend
-    // This is the same logic as HTTP /resource/get
-    const shareable = await coreApi.getConfiguration(token);
-
-    if (!shareable) {
-      logger.error(`Invalid or expired token for connection ${connectionId}`);
-      throw new HttpCodedError(HttpStatusCode.BadRequest, 'Invalid or expired resource');
-    }
+    // Same credentials as accepted at $connect, see connectionAuthenticator
+    const {
+      shareableContext: shareable,
+      expiresAt,
+      claims
+    } = await connectionAuthenticator.authenticate({ token, authToken });
 
     // Update connection with authenticated shareable context
     try {
-      await connectionManager.saveConnection(connectionId, shareable, sessionId);
+      await connectionManager.saveConnection(connectionId, shareable, sessionId, claims, event.connection?.origin);
 
       return {
         result: {
           authenticated: true,
-          config: shareable
+          config: shareable,
+          expiresAt
         },
         statusCode: HttpStatusCode.Ok
       };
@@ -72,5 +77,66 @@ export const authModule = {
       logger.error(`Failed to update connection ${connectionId}:`, error);
       throw new HttpCodedError(HttpStatusCode.InternalServerError, 'Failed to authenticate connection');
     }
+  },
+
+  /**
+   * Refresh a transient client token
+   *
+   * Exchanges a transient token minted by `resource/get` (or a previous refresh) for a new one, so
+   * long-lived clients do not have to go back to the original shareable token when it expires.
+   * The token may have expired already, within the refresh grace window. The shareable is
+   * re-validated with the backend, so revoked shareables can no longer be refreshed, and the new
+   * token keeps the original session start: sessions cannot be extended beyond the maximum lifetime.
+   *
+   * Expected body / message format:
+   * {
+   *   authToken: "transient-token-here"
+   * }
+   *
+   * @param event - The request event containing the transient token
+   * @returns The up-to-date resource configuration and a new transient token
+   * @throws {HttpCodedError} 401 - If the token is invalid, revoked or expired beyond the grace window (`TOKEN_EXPIRED`)
+   * @throws {HttpCodedError} 401 - If the session reached its maximum lifetime (`SESSION_EXPIRED`)
+   * @throws {HttpCodedError} 400 - If the shareable is no longer valid
+   * @throws {HttpCodedError} 403 - If the shareable does not allow the request origin (`ORIGIN_NOT_ALLOWED`)
+   */
+  refresh: async (event: RequestEvent) => {
+    const { authToken } = event.parsedBody as RefreshTokenRequest;
+
+    const claims = await tokenService.verifyForRefresh(authToken);
+    if (!claims) {
+      throw new HttpCodedError(HttpStatusCode.Unauthorized, 'Invalid or expired token', { code: 'TOKEN_EXPIRED' });
+    }
+
+    if (tokenService.getSessionExpiry(claims) <= Date.now() / 1000) {
+      throw new HttpCodedError(HttpStatusCode.Unauthorized, 'Session expired', { code: 'SESSION_EXPIRED' });
+    }
+
+    // Re-validate the shareable with the backend, picking up configuration changes
+    const shareable = await coreApi.getConfiguration(claims.token);
+    if (!shareable) {
+      throw new HttpCodedError(HttpStatusCode.BadRequest, 'Invalid or expired resource');
+    }
+    enforceOriginPolicy(shareable);
+
+    return {
+      result: {
+        config: shareable,
+        authToken: tokenService.generate(shareable, undefined, claims.sst ?? claims.iat)
+      }
+    };
+  },
+
+  /**
+   * Publish the public keys transient tokens are signed with
+   *
+   * Returns a JSON Web Key Set (RFC 7517) as-is, without the success envelope, so other services can
+   * verify our transient tokens with any standard JWT library, picking the key by the token `kid` header.
+   * HS256 keys are shared secrets and are never published: verifying their tokens requires the secret.
+   *
+   * @returns The JWKS document, e.g. `{ keys: [{ kty: "OKP", crv: "Ed25519", x: "...", kid, alg: "EdDSA", use: "sig" }] }`
+   */
+  jwks: async () => {
+    return Promise.resolve({ result: keyring.getJwks(), raw: true });
   }
 };
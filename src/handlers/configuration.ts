@@ -0,0 +1,54 @@
+import { HttpStatusCode } from 'axios';
+import { HttpCodedError } from '../errors/http-error';
+import { configurationCache, ConfigurationCache } from '../services/configuration-cache';
+import { InvalidateConfigurationRequest, RequestEvent } from '../types/request-types';
+import logger from '../utils/logger';
+
+export const CreateConfigurationModule = (configurationCache: ConfigurationCache) => ({
+  /**
+   * Drops cached shareable configurations, so the next lookup reads them from the backend.
+   *
+   * Internal endpoint, called by AgenticFlo with the backplane token (see `backplaneMiddleware`) when a
+   * shareable changes:
+   * - With `token`: drops the configuration cached for that shareable token
+   * - With `shareableType` and `shareableId`: drops the configuration of the shareable, whatever its token
+   *
+   * Both can be combined in a single call. Other Lambda instances may serve their own copy until it
+   * expires (`CONFIG_CACHE_TTL_SECONDS`).
+   *
+   * @param event - The HTTP event containing the invalidation request
+   * @returns An object confirming the invalidation
+   *
+   * @throws {HttpCodedError} 400 - If neither a token nor a complete shareable reference is provided
+   *
+   * @example
+   * // Request body: { shareableType: "webchat", shareableId: "abc123" }
+   * // Returns: { result: { invalidated: true } }
+   */
+  invalidate: async (event: RequestEvent) => {
+    const { token, shareableType, shareableId } = event.parsedBody as InvalidateConfigurationRequest;
+    const invalidateShareable = !!(shareableType && shareableId);
+
+    if (!token && !invalidateShareable) {
+      throw new HttpCodedError(
+        HttpStatusCode.BadRequest,
+        'Either token, or shareableType and shareableId, are required'
+      );
+    }
+
+    if (token) {
+      await configurationCache.invalidateToken(token);
+      logger.info('Invalidated the cached configuration of a shareable token');
+    }
+
+    if (invalidateShareable) {
+      await configurationCache.invalidateShareable(shareableType, shareableId);
+      logger.info(`Invalidated the cached configuration of ${shareableType}:${shareableId}`);
+    }
+
+    return { result: { invalidated: true } };
+  }
+});
+
+export type ConfigurationModule = ReturnType<typeof CreateConfigurationModule>;
+export const configurationModule = CreateConfigurationModule(configurationCache);
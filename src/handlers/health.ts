@@ -0,0 +1,25 @@
+import { circuitBreakers, CircuitBreakerRegistry } from '../services/circuit-breaker';
+
+export const CreateHealthModule = (circuitBreakers: CircuitBreakerRegistry) => ({
+  /**
+   * Reports the health of the service, as seen by this Lambda instance.
+   *
+   * The service is `degraded` while a core API route has its circuit breaker open or half-open: requests
+   * using that route fail fast with a 503 until the backend answers a probe request again.
+   * Only routes used by this instance are listed.
+   *
+   * @returns The overall status and the state of the circuit breaker of every core API route
+   *
+   * @example
+   * // GET /health/check
+   * // Returns: { result: { status: "degraded", circuits: [{ route: "GET /shareable", state: "open", failures: 5, retryAfterSeconds: 12 }] } }
+   */
+  check: async () => {
+    const circuits = circuitBreakers.snapshot();
+    const status = circuits.every(({ state }) => state === 'closed') ? 'ok' : 'degraded';
+    return Promise.resolve({ result: { status, circuits } });
+  }
+});
+
+export type HealthModule = ReturnType<typeof CreateHealthModule>;
+export const healthModule = CreateHealthModule(circuitBreakers);
@@ -0,0 +1,60 @@
+import { RouteDefinition, Transport } from '../types/route-types';
+import { buildAsyncApiDocument } from '../utils/asyncapi';
+import { buildOpenApiDocument, DocumentObject } from '../utils/openapi';
+
+/**
+ * Creates the meta module, which describes the API itself.
+ *
+ * Routes are resolved lazily through `getRoutes` because the route registry both declares
+ * these handlers and is the data they document.
+ *
+ * @param getRoutes - Returns every route of the route registry
+ * @param httpBasePath - Base path of the HTTP API (`HTTP_BASE_PATH`)
+ */
+export const CreateMetaModule = (getRoutes: () => RouteDefinition[], httpBasePath: string) => {
+  let openApiDocument: DocumentObject | null = null;
+  let asyncApiDocument: DocumentObject | null = null;
+
+  const routesFor = (transport: Transport) => getRoutes().filter((route) => route.transports.includes(transport));
+
+  return {
+    /**
+     * Returns the OpenAPI 3.1 document of the HTTP API.
+     *
+     * The document is generated once per Lambda instance and served as-is (no success envelope),
+     * so it can be consumed directly by client code generators and API tooling.
+     *
+     * @returns The OpenAPI document as a raw response
+     *
+     * @example
+     * // GET /meta/openapi
+     * // Returns: { openapi: "3.1.0", info: {...}, paths: {...}, components: {...} }
+     */
+    openapi: async () => {
+      if (!openApiDocument) {
+        openApiDocument = buildOpenApiDocument(routesFor('http'), httpBasePath);
+      }
+      return Promise.resolve({ result: openApiDocument, raw: true });
+    },
+
+    /**
+     * Returns the AsyncAPI 3.0 document of the WebSocket command protocol.
+     *
+     * Over HTTP the document is served as-is; over WebSocket it is the `result` of the reply frame.
+     *
+     * @returns The AsyncAPI document as a raw response
+     *
+     * @example
+     * // GET /meta/asyncapi or { command: "meta:asyncapi" }
+     * // Returns: { asyncapi: "3.0.0", info: {...}, channels: {...}, operations: {...}, components: {...} }
+     */
+    asyncapi: async () => {
+      if (!asyncApiDocument) {
+        asyncApiDocument = buildAsyncApiDocument(routesFor('ws'));
+      }
+      return Promise.resolve({ result: asyncApiDocument, raw: true });
+    }
+  };
+};
+
+export type MetaModule = ReturnType<typeof CreateMetaModule>;
@@ -3,6 +3,7 @@ import { HttpCodedError } from '../errors/http-error';
 import { coreApi, CoreApiService } from '../services/core-api';
 import { tokenService, TransientTokenService } from '../services/transient-token';
 import { ResourceRequest, WithHttp } from '../types/request-types';
+import { enforceOriginPolicy } from '../utils/origin';
 
 export const CreateResourceModule = (coreApi: CoreApiService, tokenService: TransientTokenService) => ({
   /**
@@ -18,6 +19,7 @@ export const CreateResourceModule = (coreApi: CoreApiService, tokenService: Tran
    *
    * @throws {HttpCodedError} 400 - If token is missing from the request
    * @throws {HttpCodedError} 400 - If the token is invalid or expired
+   * @throws {HttpCodedError} 403 - If the shareable does not allow the request origin (`ORIGIN_NOT_ALLOWED`)
    *
    * @example
    * // Request body: { token: "abc123" }
@@ -35,6 +37,7 @@ export const CreateResourceModule = (coreApi: CoreApiService, tokenService: Tran
     if (!shareable) {
       throw new HttpCodedError(HttpStatusCode.BadRequest, 'Invalid or expired resource');
     }
+    enforceOriginPolicy(shareable);
 
     // Generate a transient authentication token for the client
     const authToken = tokenService.generate(shareable);
@@ -0,0 +1,81 @@
+import { HttpStatusCode } from 'axios';
+import { config } from '../config';
+import { HttpCodedError } from '../errors/http-error';
+import { configurationCache, ConfigurationCache } from '../services/configuration-cache';
+import { connectionManager, ConnectionManager } from '../services/connection-manager';
+import { revocationStore, RevocationStore } from '../services/revocation-store';
+import { websocketClient, WebSocketClient } from '../services/websocket-client';
+import { RequestEvent, RevokeRequest } from '../types/request-types';
+import logger from '../utils/logger';
+
+export const CreateRevocationModule = (
+  revocationStore: RevocationStore,
+  connectionManager: ConnectionManager,
+  websocketClient: WebSocketClient,
+  configurationCache: ConfigurationCache,
+  endpoint: string | undefined
+) => ({
+  /**
+   * Revokes transient tokens before they expire.
+   *
+   * Internal endpoint, called by AgenticFlo with the backplane token (see `backplaneMiddleware`):
+   * - With `jti`: revokes that single token; connections authenticated with it are closed by `wsAuthMiddleware`
+   * - With `shareableType` and `shareableId`: revokes every token issued so far for the shareable, drops its
+   *   cached configuration and closes the WebSocket connections authenticated with it
+   *
+   * Both can be combined in a single call.
+   *
+   * @param event - The HTTP event containing the revocation request
+   * @returns An object containing the number of WebSocket connections closed
+   *
+   * @throws {HttpCodedError} 400 - If neither a jti nor a complete shareable reference is provided
+   *
+   * @example
+   * // Request body: { shareableType: "webchat", shareableId: "abc123" }
+   * // Returns: { result: { revoked: true, disconnected: 2 } }
+   */
+  revoke: async (event: RequestEvent) => {
+    const { jti, shareableType, shareableId } = event.parsedBody as RevokeRequest;
+    const revokeShareable = !!(shareableType && shareableId);
+
+    if (!jti && !revokeShareable) {
+      throw new HttpCodedError(HttpStatusCode.BadRequest, 'Either jti, or shareableType and shareableId, are required');
+    }
+
+    if (jti) {
+      await revocationStore.revokeToken(jti);
+      logger.info(`Revoked transient token ${jti}`);
+    }
+
+    let disconnected = 0;
+    if (revokeShareable) {
+      await revocationStore.revokeShareable(shareableType, shareableId);
+      await configurationCache.invalidateShareable(shareableType, shareableId);
+      logger.info(`Revoked transient tokens of ${shareableType}:${shareableId}`);
+
+      const connections = await connectionManager.getConnectionsByResourceId(shareableType, shareableId);
+      if (connections.length && !endpoint) {
+        logger.error(`Cannot close ${connections.length} connections of ${shareableType}:${shareableId}: no endpoint`);
+      } else if (endpoint) {
+        const results = await Promise.allSettled(
+          connections.map(async ({ connectionId }) => {
+            await websocketClient.disconnect(endpoint, connectionId);
+            await connectionManager.deleteConnection(connectionId);
+          })
+        );
+        disconnected = results.filter((outcome) => outcome.status === 'fulfilled').length;
+      }
+    }
+
+    return { result: { revoked: true, disconnected } };
+  }
+});
+
+export type RevocationModule = ReturnType<typeof CreateRevocationModule>;
+export const revocationModule = CreateRevocationModule(
+  revocationStore,
+  connectionManager,
+  websocketClient,
+  configurationCache,
+  config.websocket.apiEndpoint
+);
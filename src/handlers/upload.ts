@@ -37,7 +37,7 @@ export const CreateUploadModule = (coreApi: CoreApiService) => ({
    */
   confirmUpload: async (event: WithShareable) => {
     const payload = event.parsedBody as FileConfirmationDTO;
-    const result = await coreApi.confirmFileUpload(payload, event.shareableContext.token);
+    const result = await coreApi.confirmFileUpload(payload, event.shareableContext.token, event.idempotencyKey);
     return { result };
   }
 });
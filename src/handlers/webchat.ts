@@ -1,68 +1,437 @@
 import { HttpStatusCode } from 'axios';
+import { config } from '../config';
 import { HttpCodedError } from '../errors/http-error';
 import { coreApi, CoreApiService } from '../services/core-api';
-import { WebchatMessageRequest, WebchatRequestPayload, WithShareable } from '../types/request-types';
+import { sessionEventLog, SessionEventLog } from '../services/session-event-log';
+import { websocketClient, WebSocketClient } from '../services/websocket-client';
+import { SessionEventsConfig } from '../types/config-types';
+import {
+  WebchatFeedbackRequest,
+  WebchatHistoryRequest,
+  WebchatInitRequest,
+  WebchatMessageRequest,
+  WebchatRequestPayload,
+  WebchatStreamQuery,
+  WithShareable
+} from '../types/request-types';
+import { WebchatDelta } from '../types/response-types';
+import { getErrorMessage, getHeader } from '../utils/lib';
+import logger from '../utils/logger';
+import { parseError, wsSuccess } from '../utils/response';
+import {
+  BUFFERED_MAX_DURATION_MS,
+  followSessionEvents,
+  LAST_EVENT_ID_HEADER,
+  parseLastEventId,
+  sessionStreamKey
+} from '../utils/sse';
 
-const CreateWebChatModule = (coreApi: CoreApiService) => ({
-  /**
-   * Sends a message in a webchat session.
-   *
-   * This endpoint allows clients to send messages within an active webchat session
-   * associated with the shareable resource. The message is processed and added to
-   * the conversation history.
-   *
-   * @param event - The HTTP event containing the shareable context, session ID, and message payload
-   * @returns An object containing the sent message details and any response
-   *
-   * @throws {HttpCodedError} 400 - If the message content is missing or empty
-   *
-   * @example
-   * // Request body: { sessionId: "sess_123", message: "Hello!" }
-   * // Returns: {
-   *                result: {
-   *                  sessionId: "sess_123",
-   *                  timestamp: "2025-11-07T...",
-   *                  message: [{"role": "...", "content": "..."}]
-   *               }
-   *            }
-   */
-  send: async (event: WithShareable) => {
-    const { sessionId, ...payload } = event.parsedBody as WebchatMessageRequest;
+/**
+ * Messages per history page when the request sets no `limit`: small enough for a WebSocket frame (128KB)
+ */
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Settings of the webchat module
+ */
+type WebChatOptions = {
+  endpoint?: string; // WebSocket management endpoint, to send `webchat:delta` frames
+  streaming: boolean; // AGENTICFLO_STREAMING, stream replies from the core API
+  sessionEvents: SessionEventsConfig;
+};
 
-    if (!payload || !payload.message) {
-      throw new HttpCodedError(HttpStatusCode.BadRequest, 'message is required');
+/**
+ * Publishes the chunks of a reply to the session event log without holding up their relay: at most one
+ * `webchat:delta` event is written at a time, and the chunks received meanwhile are merged into the next one
+ * (with the index of the first). Chunks not written yet when the reply ends are dropped, as the complete reply
+ * published next supersedes them.
+ *
+ * @param publish - Appends an event to the log of the session
+ * @returns `push` to publish a chunk, `close` to stop and wait for the event being written
+ *
+ * @internal
+ */
+const CreateDeltaPublisher = (publish: (type: string, data: WebchatDelta) => Promise<void>) => {
+  let pending: WebchatDelta | undefined;
+  let writing: Promise<void> | undefined;
+  let closed = false;
+
+  const write = async () => {
+    while (pending && !closed) {
+      const frame = pending;
+      pending = undefined;
+      await publish('webchat:delta', frame);
     }
+    writing = undefined;
+  };
 
-    const result = await coreApi.sendWebchatMessage(sessionId, payload, event.shareableContext.token);
-    return { result };
-  },
+  return {
+    push: (frame: WebchatDelta) => {
+      pending = pending ? { ...pending, delta: pending.delta + frame.delta } : frame;
+      writing ??= write();
+    },
+    close: async () => {
+      closed = true;
+      await writing;
+    }
+  };
+};
 
+const CreateWebChatModule = (
+  coreApi: CoreApiService,
+  websocketClient: WebSocketClient,
+  sessionEventLog: SessionEventLog,
+  { endpoint, streaming, sessionEvents }: WebChatOptions
+) => {
   /**
-   * Retrieves the complete message history for a webchat session.
-   *
-   * This endpoint fetches all messages exchanged in a specific webchat session,
-   * allowing clients to display conversation history or restore session state.
-   *
-   * @param event - The HTTP event containing the shareable context and session ID
-   * @returns An object containing the array of messages in chronological order
-   *
-   * @throws {HttpCodedError} 400 - If the session ID is missing
-   *
-   * @example
-   * // Request body: { sessionId: "sess_123" }
-   * // Returns: { result: [{"role": "...", "content": "..."}] }
+   * Appends an event to the log followed by the SSE clients of a session (see `stream`).
+   * Failing to publish it must not fail the request: SSE clients then miss the event.
    */
-  getHistory: async (event: WithShareable) => {
-    const { sessionId } = event.parsedBody as WebchatRequestPayload;
+  const publish = async (streamKey: string, type: string, data: unknown): Promise<void> => {
+    await sessionEventLog.append(streamKey, type, data).catch((error: unknown) => {
+      logger.warn(`Failed to publish ${type} session event`, { error: getErrorMessage(error) });
+    });
+  };
 
-    if (!sessionId) {
-      throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
-    }
+  return {
+    /**
+     * Sends a message in a webchat session.
+     *
+     * This endpoint allows clients to send messages within an active webchat session
+     * associated with the shareable resource. The message is processed and added to
+     * the conversation history.
+     *
+     * With `AGENTICFLO_STREAMING`, the reply is relayed as it is generated: WebSocket clients receive
+     * `webchat:delta` frames carrying each chunk, then the usual `webchat:send` frame with the
+     * complete message. A cancelled or failed reply ends with a `webchat:send` failure frame instead.
+     *
+     * Chunks, replies and failures are also published to the session event log, followed by the
+     * Server-Sent Events clients of the session (see `stream`), whatever the transport of the message.
+     * Chunks are relayed to the WebSocket client without waiting for the log, and merged while it is written to
+     * (see `CreateDeltaPublisher`): the reply only waits for the event being written when it ends.
+     *
+     * @param event - The HTTP event containing the shareable context, session ID, and message payload
+     * @returns An object containing the sent message details and any response
+     *
+     * @throws {HttpCodedError} 400 - If the message content is missing or empty
+     * @throws {HttpCodedError} 409 - With code `STREAM_CANCELLED`, if the streamed reply was cancelled
+     * @throws {HttpCodedError} 502 - With code `STREAM_FAILED`, if the streamed reply failed midway
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123", message: "Hello!" }
+     * // Returns: {
+     *                result: {
+     *                  sessionId: "sess_123",
+     *                  timestamp: "2025-11-07T...",
+     *                  message: [{"role": "...", "content": "..."}]
+     *               }
+     *            }
+     */
+    send: async (event: WithShareable) => {
+      const { sessionId, ...payload } = event.parsedBody as WebchatMessageRequest;
 
-    const result = await coreApi.getWebchatHistory(sessionId, event.shareableContext.token);
-    return { result };
-  }
-});
+      if (!payload || !payload.message) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'message is required');
+      }
+
+      const { connection } = event;
+      const streamKey = sessionStreamKey(event.shareableContext, sessionId);
+
+      const deltas = CreateDeltaPublisher((type, data) => publish(streamKey, type, data));
+
+      try {
+        let index = 0;
+        const result = streaming
+          ? await coreApi.streamWebchatMessage(
+              sessionId,
+              payload,
+              event.shareableContext.token,
+              async (delta) => {
+                const frame: WebchatDelta = { sessionId, index: index++, delta };
+                deltas.push(frame);
+                return connection && endpoint
+                  ? websocketClient.sendToConnection(
+                      endpoint,
+                      connection.connectionId,
+                      'webchat:delta',
+                      wsSuccess(frame, HttpStatusCode.Ok, event.requestId)
+                    )
+                  : true;
+              },
+              event.idempotencyKey
+            )
+          : await coreApi.sendWebchatMessage(sessionId, payload, event.shareableContext.token, event.idempotencyKey);
+
+        await deltas.close();
+        await publish(streamKey, 'webchat:send', result);
+        return { result };
+      } catch (error) {
+        // Same error as the failure frame of the WebSocket router
+        const publicError = error instanceof HttpCodedError ? parseError(error) : { message: 'Internal server error' };
+        await deltas.close();
+        await publish(streamKey, 'webchat:error', publicError);
+        throw error;
+      }
+    },
+
+    /**
+     * Follows the events of a webchat session as Server-Sent Events, for clients that cannot use WebSockets.
+     *
+     * Sends the events published by `send` for the session, whatever the transport of the message:
+     * - `webchat:delta`: a chunk of the reply being streamed (`WebchatDelta`)
+     * - `webchat:send`: the complete reply (`ChatMessage`)
+     * - `webchat:error`: the reply failed or was cancelled (`PublicError`)
+     * - `webchat:finish` / `webchat:reopen`: the conversation was finished or reopened (`WebChatConversation`)
+     *
+     * Clients start with the events to come. Each event carries its ID: reconnecting clients send the last one as
+     * `Last-Event-ID` (or the `lastEventId` query string parameter) to resume after it. Streamed responses (Lambda response streaming) end after
+     * `SSE_MAX_DURATION_SECONDS`. Buffered responses (API Gateway, offline) end as soon as events were sent, like
+     * a long poll. Clients then reconnect.
+     *
+     * @param event - The HTTP event containing the shareable context, with the session ID in the query string
+     * @returns An object containing the events to stream
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing
+     *
+     * @example
+     * // GET /webchat/stream?sessionId=sess_123, with `Last-Event-ID: 1731000000042`
+     * // Streams: id: 1731000000043\nevent: webchat:delta\ndata: {"sessionId":"sess_123","index":0,"delta":"Hi"}
+     */
+    stream: (event: WithShareable) => {
+      const query = (event.httpContext?.queryStringParameters || {}) as Partial<WebchatStreamQuery>;
+      const { sessionId } = query;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+
+      const lastEventId = getHeader(event.httpContext?.headers || {}, LAST_EVENT_ID_HEADER) ?? query.lastEventId;
+      const streamKey = sessionStreamKey(event.shareableContext, sessionId);
+      const maxDurationMs = sessionEvents.sseMaxDurationSeconds * 1000;
+
+      const events = followSessionEvents(
+        (afterSeq) => sessionEventLog.readAfter(streamKey, afterSeq),
+        // New clients follow the events to come: only reconnecting clients replay the ones they missed
+        parseLastEventId(lastEventId) ?? (() => sessionEventLog.lastSeq(streamKey)),
+        {
+          maxDurationMs: event.streaming ? maxDurationMs : Math.min(maxDurationMs, BUFFERED_MAX_DURATION_MS),
+          pollIntervalMs: sessionEvents.ssePollIntervalMs,
+          returnWhenIdle: !event.streaming
+        }
+      );
+      return { result: null, events };
+    },
+
+    /**
+     * Cancels the reply being streamed in a webchat session.
+     *
+     * The `webchat:send` command streaming the reply then ends with a failure frame, with code `STREAM_CANCELLED`.
+     *
+     * @param event - The HTTP event containing the shareable context and session ID
+     * @returns An object confirming the cancellation was requested
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123" }
+     * // Returns: { result: { cancelled: true } }
+     */
+    cancel: async (event: WithShareable) => {
+      const { sessionId } = event.parsedBody as WebchatRequestPayload;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+
+      await coreApi.cancelWebchatMessage(sessionId, event.shareableContext.token);
+      return { result: { cancelled: true } };
+    },
+
+    /**
+     * Finishes a webchat conversation, e.g. when the user closes the chat.
+     * Followers of the session receive a `webchat:finish` event (see `stream`).
+     *
+     * @param event - The HTTP event containing the shareable context and session ID
+     * @returns An object containing the conversation, now finished
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123" }
+     * // Returns: { result: { sessionId: "sess_123", status: "finished", finishedAt: "2025-11-07T..." } }
+     */
+    finish: async (event: WithShareable) => {
+      const { sessionId } = event.parsedBody as WebchatRequestPayload;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+
+      const result = await coreApi.finishWebchatConversation(
+        sessionId,
+        event.shareableContext.token,
+        event.idempotencyKey
+      );
+      await publish(sessionStreamKey(event.shareableContext, sessionId), 'webchat:finish', result);
+      return { result };
+    },
+
+    /**
+     * Reopens a finished webchat conversation, so messages can be sent again.
+     * Followers of the session receive a `webchat:reopen` event (see `stream`).
+     *
+     * @param event - The HTTP event containing the shareable context and session ID
+     * @returns An object containing the conversation, open again
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123" }
+     * // Returns: { result: { sessionId: "sess_123", status: "open", finishedAt: null } }
+     */
+    reopen: async (event: WithShareable) => {
+      const { sessionId } = event.parsedBody as WebchatRequestPayload;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+
+      const result = await coreApi.reopenWebchatConversation(
+        sessionId,
+        event.shareableContext.token,
+        event.idempotencyKey
+      );
+      await publish(sessionStreamKey(event.shareableContext, sessionId), 'webchat:reopen', result);
+      return { result };
+    },
+
+    /**
+     * Records feedback on a webchat conversation, or on one of its messages.
+     *
+     * The feedback is either a thumb (`up` or `down`) or a rating from 1 to 5, with an optional comment.
+     * It is about the message `messageId` (see `ChatMessage.id`), or the whole conversation without one.
+     *
+     * @param event - The HTTP event containing the shareable context, session ID and feedback
+     * @returns An object containing the recorded feedback
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing, or not exactly one of thumbs and rating is set
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123", messageId: "msg_42", rating: 4, comment: "Helpful" }
+     * // Returns: { result: { id: "fb_1", sessionId: "sess_123", messageId: "msg_42", rating: 4, ... } }
+     */
+    feedback: async (event: WithShareable) => {
+      const { sessionId, messageId, thumbs, rating, comment } = event.parsedBody as WebchatFeedbackRequest;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+      if ((thumbs === undefined) === (rating === undefined)) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'either thumbs or rating is required, not both');
+      }
+
+      const result = await coreApi.sendWebchatFeedback(
+        sessionId,
+        { messageId, thumbs, rating, comment },
+        event.shareableContext.token,
+        event.idempotencyKey
+      );
+      return { result };
+    },
+
+    /**
+     * Retrieves everything a webchat widget needs to restore a session in a single call.
+     *
+     * Returns the conversation status, the agent tasks still running, the unread count and the session
+     * metadata, with the latest messages. Older messages are then loaded with `getHistory`, sending
+     * `history.nextCursor` as `before`.
+     *
+     * @param event - The HTTP event containing the shareable context and session ID
+     * @returns An object containing the state of the session and its latest messages
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123", limit: 20 }
+     * // Returns: {
+     *                result: {
+     *                  sessionId: "sess_123",
+     *                  status: "open",
+     *                  finishedAt: null,
+     *                  pendingTasks: [{"id": "task_1", "name": "search", "status": "running"}],
+     *                  unreadCount: 2,
+     *                  metadata: {},
+     *                  history: { sessionId: "sess_123", messages: [...], hasMore: true, nextCursor: "c_22" }
+     *                }
+     *             }
+     */
+    init: async (event: WithShareable) => {
+      const { sessionId, limit } = event.parsedBody as WebchatInitRequest;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+
+      const result = await coreApi.getWebchatSession(
+        sessionId,
+        limit ?? DEFAULT_HISTORY_PAGE_SIZE,
+        event.shareableContext.token
+      );
+      return { result };
+    },
+
+    /**
+     * Retrieves one page of the message history of a webchat session.
+     *
+     * This endpoint fetches the messages exchanged in a specific webchat session, page by page,
+     * allowing clients to display conversation history or restore session state.
+     * The first page holds the latest messages: clients send its `nextCursor` as `before` to load
+     * older ones, or a cursor as `after` to page forwards. `roles` keeps only messages of these roles.
+     *
+     * @param event - The HTTP event containing the shareable context, session ID and page selection
+     * @returns An object containing the page of messages in chronological order, and the cursor of the next one
+     *
+     * @throws {HttpCodedError} 400 - If the session ID is missing, or both `before` and `after` are set
+     *
+     * @example
+     * // Request body: { sessionId: "sess_123", limit: 20, before: "c_42", roles: ["user", "assistant"] }
+     * // Returns: {
+     *                result: {
+     *                  sessionId: "sess_123",
+     *                  messages: [{"role": "...", "content": "..."}],
+     *                  hasMore: true,
+     *                  nextCursor: "c_22"
+     *                }
+     *             }
+     */
+    getHistory: async (event: WithShareable) => {
+      const { sessionId, limit, before, after, roles } = event.parsedBody as WebchatHistoryRequest;
+
+      if (!sessionId) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'session id is required');
+      }
+      if (before && after) {
+        throw new HttpCodedError(HttpStatusCode.BadRequest, 'before and after cannot be combined');
+      }
+
+      const result = await coreApi.getWebchatHistory(
+        sessionId,
+        {
+          limit: limit ?? DEFAULT_HISTORY_PAGE_SIZE,
+          before,
+          after,
+          roles: roles?.length ? roles.join(',') : undefined
+        },
+        event.shareableContext.token
+      );
+      return { result };
+    }
+  };
+};
 
 export type WebChatModule = ReturnType<typeof CreateWebChatModule>;
-export const webchatModule = CreateWebChatModule(coreApi);
+export const webchatModule = CreateWebChatModule(coreApi, websocketClient, sessionEventLog, {
+  endpoint: config.websocket.apiEndpoint,
+  streaming: config.coreApi.streaming,
+  sessionEvents: config.sessionEvents
+});
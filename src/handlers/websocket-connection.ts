@@ -1,32 +1,118 @@
 import { APIGatewayProxyStructuredResultV2, APIGatewayProxyWebsocketEventV2 } from 'aws-lambda';
+import { HttpStatusCode } from 'axios';
+import { config } from '../config';
+import { HttpCodedError } from '../errors/http-error';
+import { ConnectionAuthentication, connectionAuthenticator } from '../services/connection-auth';
 import { connectionManager } from '../services/connection-manager';
-import { success } from '../utils/response';
+import { failure, success } from '../utils/response';
+import { getErrorMessage, getHeader, hasKey } from '../utils/lib';
 import logger from '../utils/logger';
 
+/**
+ * Subprotocol clients offer to pass a transient JWT in `Sec-WebSocket-Protocol`, followed by the token:
+ * `new WebSocket(url, ['agentic-shareable', authToken])`
+ */
+export const AUTH_SUBPROTOCOL = 'agentic-shareable';
+
+/**
+ * Reads the credentials and session ID of a $connect handshake
+ *
+ * - Query string: `?token=SHAREABLE_TOKEN` or `?authToken=TRANSIENT_JWT`, plus optional `sessionId`
+ * - `Sec-WebSocket-Protocol: agentic-shareable, TRANSIENT_JWT`, for clients that keep tokens out of URLs
+ *
+ * @internal
+ */
+function readConnectParameters(event: APIGatewayProxyWebsocketEventV2) {
+  // $connect events carry the handshake headers and query string even though the event type does not declare them
+  const headers = hasKey(event, 'headers') ? (event.headers as Record<string, string | undefined>) : {};
+  const query = hasKey(event, 'queryStringParameters')
+    ? ((event.queryStringParameters as Record<string, string | undefined> | null) ?? {})
+    : {};
+
+  const protocols = (getHeader(headers, 'Sec-WebSocket-Protocol') ?? '').split(',').map((value) => value.trim());
+  const protocolIndex = protocols.indexOf(AUTH_SUBPROTOCOL);
+  const protocolToken = protocolIndex >= 0 ? protocols[protocolIndex + 1] : undefined;
+
+  return {
+    credentials: { token: query.token, authToken: protocolToken || query.authToken },
+    sessionId: query.sessionId,
+    origin: getHeader(headers, 'Origin'),
+    subprotocol: protocolIndex >= 0 ? AUTH_SUBPROTOCOL : undefined
+  };
+}
+
+/**
+ * Accepts a $connect handshake, echoing the auth subprotocol when the client offered it:
+ * browsers fail the handshake when an offered subprotocol is not selected, even without a token
+ *
+ * @internal
+ */
+function accept(subprotocol: string | undefined): APIGatewayProxyStructuredResultV2 {
+  const response = success();
+  return subprotocol
+    ? { ...response, headers: { ...response.headers, 'Sec-WebSocket-Protocol': subprotocol } }
+    : response;
+}
+
 /**
  * Handle WebSocket $connect event
- * Accepts all connections WITHOUT authentication
  *
- * Authentication is deferred to the first message the client sends.
- * This follows the proper WebSocket pattern where connection and authentication
- * are separate concerns, allowing clients to authenticate after connecting.
+ * Clients may authenticate during the handshake, with a token in the query string or the
+ * `Sec-WebSocket-Protocol` header (see `readConnectParameters`). Credentials are validated like the
+ * `authenticate` command, before any connection record is written: bad tokens, and origins not allowed
+ * by the shareable, reject the connection. The handshake `Origin` is stored for the `authenticate` command.
+ *
+ * Without credentials, the connection is accepted unauthenticated and authentication is deferred to
+ * the first message the client sends, unless `WS_CONNECT_AUTH_REQUIRED` is enabled for the stage.
+ *
+ * @param event - API Gateway WebSocket $connect event
+ * @returns 200 to accept the connection (echoing the auth subprotocol when offered), 4xx to reject it
  */
 export async function handleConnect(
   event: APIGatewayProxyWebsocketEventV2
 ): Promise<APIGatewayProxyStructuredResultV2> {
   const connectionId = event.requestContext.connectionId;
+  const { credentials, sessionId, origin, subprotocol } = readConnectParameters(event);
+
+  if (!credentials.token && !credentials.authToken) {
+    // WS_CONNECT_AUTH_REQUIRED, set per stage
+    if (config.websocket.connectAuthRequired) {
+      logger.warn(`Rejected unauthenticated connection ${connectionId}`);
+      return failure('Authentication required', HttpStatusCode.Unauthorized);
+    }
+
+    try {
+      // Store unauthenticated connection in DynamoDB
+      // Client must authenticate via first message
+      await connectionManager.saveConnection(connectionId, undefined, undefined, undefined, origin);
+
+      return accept(subprotocol);
+    } catch (error) {
+      logger.error(`Error in $connect handler:`, error);
+      // Still accept the connection - client can try to authenticate
+      return accept(subprotocol);
+    }
+  }
 
+  let authentication: ConnectionAuthentication;
   try {
-    // Store unauthenticated connection in DynamoDB
-    // Client must authenticate via first message
-    await connectionManager.saveConnection(connectionId);
+    authentication = await connectionAuthenticator.authenticate(credentials);
+  } catch (error) {
+    logger.warn(`Rejected connection ${connectionId}: ${getErrorMessage(error)}`);
+    return error instanceof HttpCodedError
+      ? failure(error.message, error.statusCode)
+      : failure('Authentication failed', HttpStatusCode.Unauthorized);
+  }
 
-    return success();
+  const { shareableContext, claims } = authentication;
+  try {
+    await connectionManager.saveConnection(connectionId, shareableContext, sessionId, claims, origin);
   } catch (error) {
     logger.error(`Error in $connect handler:`, error);
-    // Still accept the connection - client can try to authenticate
-    return success();
+    return failure('Failed to authenticate connection', HttpStatusCode.InternalServerError);
   }
+
+  return accept(subprotocol);
 }
 
 /**
@@ -1,115 +1,61 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from 'aws-lambda';
 import { HttpStatusCode } from 'axios';
+import { once } from 'node:events';
+import { config } from './config';
 import { HttpCodedError } from './errors/http-error';
-import { resourceModule } from './handlers/resource';
-import { uploadModule } from './handlers/upload';
-import { webchatModule } from './handlers/webchat';
+import { applyMiddleware } from './middlewares/apply-middleware';
+import { authorize } from './middlewares/authorize';
+import { bodyValidator } from './middlewares/body-validator';
+import { idempotencyMiddleware } from './middlewares/idempotency';
 import { jwtMiddleware } from './middlewares/jwt-guard';
+import { getRoutesFor } from './route-registry';
 import { extractErrorData, notifySlackAsync, shouldNotifySlack } from './services/slack-notifier';
 import { HandlerFn, Middleware } from './types/handler-types';
 import { RequestEvent } from './types/request-types';
-import { HandlerResponse } from './types/response-types';
-import { getErrorMessage, parseHttpEvent } from './utils/lib';
+import { resolveHttpCorrelationId, withCorrelationId } from './utils/correlation';
+import { getErrorMessage, getHeader, getHttpMethod, parseHttpEvent } from './utils/lib';
 import logger from './utils/logger';
-import { failure, success } from './utils/response';
-
-/**
- * Composes a handler function with a chain of middleware functions.
- *
- * Creates a new handler that executes the provided middlewares in sequence,
- * with each middleware having the ability to:
- * - Enrich the event object with additional context, parsed data, or connections
- * - Short-circuit the pipeline by returning early (e.g., for authentication failures)
- * - Pass control to the next middleware via the `next()` function
- * - Handle errors and cleanup operations (e.g., closing database connections)
- *
- * Middlewares are executed in the order they appear in the array. Each middleware
- * must call `next(event)` to continue the chain, or return a response to short-circuit.
- *
- * @param handler - The final handler function to execute after all middlewares
- * @param middlewares - Array of middleware functions to execute in order
- * @returns A new handler function with the middleware pipeline applied
- *
- * @example
- * ```typescript
- * // Apply authentication, logging, and validation middlewares
- * const enhancedHandler = applyMiddleware(originalHandler, [
- *   authMiddleware,
- *   loggingMiddleware,
- *   validationMiddleware
- * ]);
- *
- * // Use in routing map
- * const routingMap = {
- *   myResource: {
- *     post: applyMiddleware(myHandler, [jwtMiddleware])
- *   }
- * };
- * ```
- *
- * @example
- * ```typescript
- * // Example middleware that enriches the event
- * const authMiddleware: Middleware = async (event, next) => {
- *   const user = await authenticateUser(event.httpContext.headers.authorization);
- *   return next({ ...event, user }); // Pass enriched event to next middleware
- * };
- * ```
- */
-const applyMiddleware = (handler: HandlerFn, middlewares: Middleware[]): HandlerFn => {
-  return async (event: RequestEvent) => {
-    const enrichedEvent = event;
-
-    const executeMiddleware = async (index: number, currentEvent: RequestEvent): Promise<HandlerResponse> => {
-      if (index >= middlewares.length) {
-        // All middlewares executed, call the actual handler
-        return handler(currentEvent);
-      }
-
-      const currentMiddleware = middlewares[index];
-
-      // Pass next function that accepts enriched event
-      return currentMiddleware(currentEvent, (nextEvent) => executeMiddleware(index + 1, nextEvent));
-    };
-
-    return executeMiddleware(0, enrichedEvent);
-  };
-};
+import { withRequestOrigin } from './utils/origin';
+import { bufferEventStream, eventStream, EventStreamResult, failure, preflight, raw, success } from './utils/response';
+import { formatServerSentEvent } from './utils/sse';
 
 /**
  * Application routing configuration mapping resources and HTTP methods to handlers.
  *
- * Structure: `{ resource: { method: handler } }`
+ * Structure: `{ resource: { "METHOD:action": handler } }`
  *
- * Routes are organized by resource path (extracted from `event.requestContext.http.path`)
- * and HTTP method (extracted from `event.requestContext.http.method`).
+ * Built from the shared route registry (`route-registry.ts`), keeping only routes exposed over HTTP.
  *
  * - **Public routes**: No middleware, directly accessible
- * - **Protected routes**: Wrapped with `jwtMiddleware` for authentication
+ * - **Protected routes** (`auth: true`): Wrapped with `jwtMiddleware` for authentication
+ * - **Route `guards`**: Other authentication (e.g. `backplaneMiddleware`), also before anything reads the body
+ * - **Routes with a `capability`**: Checked by `authorize` against the shareable's type and channels
+ * - **Routes with a `bodySchema`**: Body validated by `bodyValidator` before the handler runs
+ * - **Routes flagged `idempotent`**: Resent requests replayed by `idempotencyMiddleware`
+ * - **Route `middlewares`**: Run last, shared with the WebSocket router
  *
  * @example
  * ```typescript
- * // Request to GET /resource -> resourceModule.get (no auth required)
- * // Request to POST /webchat -> webchatModule.send (JWT auth required)
+ * // Request to POST /resource/get -> resourceModule.get (no auth required)
+ * // Request to POST /webchat/send -> webchatModule.send (JWT auth required)
  * ```
  */
-const routingMap: Record<string, Record<string, HandlerFn>> = {
-  // Public resource: shareable token validation (no authentication required)
-  resource: {
-    'POST:get': resourceModule.get as HandlerFn
-  },
-
-  // Protected resources (require JWT authentication)
-  webchat: {
-    'POST:get-history': applyMiddleware(webchatModule.getHistory as HandlerFn, [jwtMiddleware]),
-    'POST:send': applyMiddleware(webchatModule.send as HandlerFn, [jwtMiddleware])
+const routingMap: Record<string, Record<string, HandlerFn>> = getRoutesFor('http').reduce(
+  (map, route) => {
+    const middlewares: Middleware[] = [
+      ...(route.auth ? [jwtMiddleware] : []),
+      ...(route.guards || []),
+      ...(route.auth && route.capability ? [authorize(route.capability)] : []),
+      ...(route.bodySchema ? [bodyValidator(route.bodySchema)] : []),
+      ...(route.auth && route.idempotent ? [idempotencyMiddleware] : []),
+      ...(route.middlewares || [])
+    ];
+    map[route.resource] = map[route.resource] || {};
+    map[route.resource][`${getHttpMethod(route)}:${route.action}`] = applyMiddleware(route.handler, middlewares);
+    return map;
   },
-
-  upload: {
-    'POST:get-link': applyMiddleware(uploadModule.getUploadLink as HandlerFn, [jwtMiddleware]),
-    'POST:confirm': applyMiddleware(uploadModule.confirmUpload as HandlerFn, [jwtMiddleware])
-  }
-};
+  {} as Record<string, Record<string, HandlerFn>>
+);
 
 /**
  * Main AWS Lambda handler for processing HTTP API Gateway requests.
@@ -119,7 +65,7 @@ const routingMap: Record<string, Record<string, HandlerFn>> = {
  * 2. Extracts the resource path and HTTP method from the request context
  * 3. Looks up the appropriate handler in the routing map
  * 4. Executes the handler (with any configured middleware)
- * 5. Returns a standardized API Gateway response
+ * 5. Returns a standardized API Gateway response, or the Server-Sent Events of the handler (`events`)
  *
  * The handler automatically catches and formats errors, including:
  * - Route not found errors (404)
@@ -128,7 +74,8 @@ const routingMap: Record<string, Record<string, HandlerFn>> = {
  * - Unexpected errors (500 Internal Server Error)
  *
  * @param event - API Gateway HTTP event (v2 payload format)
- * @returns Structured API Gateway response with statusCode, headers, and body
+ * @param streaming - Whether the response is streamed (`streamHandler`), or buffered (`handler`)
+ * @returns Structured API Gateway response with statusCode, headers, and body, or events to write
  *
  * @example
  * ```typescript
@@ -152,12 +99,20 @@ const routingMap: Record<string, Record<string, HandlerFn>> = {
  * }
  * ```
  */
-export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyStructuredResultV2> => {
-  const requestEvent = parseHttpEvent(event);
+const dispatchHttpEvent = async (
+  event: APIGatewayProxyEventV2,
+  streaming: boolean
+): Promise<APIGatewayProxyStructuredResultV2 | EventStreamResult> => {
+  const requestEvent = { ...parseHttpEvent(event, config.httpBasePath), streaming };
 
   try {
     const { resource, action, method } = requestEvent.targetResource;
 
+    // CORS preflight requests are answered before routing: they carry no credentials
+    if (method.toUpperCase() === 'OPTIONS') {
+      return preflight();
+    }
+
     // Look up resource in routing map
     const resourceHandlers = routingMap[resource];
     if (!resourceHandlers) {
@@ -174,24 +129,118 @@ export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGateway
     // Execute handler (with any middleware chain)
     const response = await handlerFn(requestEvent);
 
+    // Raw responses (e.g., API documents) skip the success envelope
+    if (response.raw) {
+      return raw(response.result, response.statusCode);
+    }
+
+    // Server-Sent Events, written by the entrypoint as they come
+    if (response.events) {
+      return eventStream(response.events);
+    }
+
     // Return successful response
     return success(response.result || response);
   } catch (err: any) {
-    const msg = getErrorMessage(err);
-    const statusCode = err instanceof HttpCodedError ? err.statusCode : HttpStatusCode.InternalServerError;
-    const { requestContext, pathParameters, queryStringParameters } = requestEvent.httpContext!;
-    logger.error(msg, err, {
-      statusCode,
-      requestContext,
-      pathParameters,
-      queryStringParameters
-    });
-
-    if (shouldNotifySlack(err)) {
-      const errorData = extractErrorData(requestEvent, err);
-      notifySlackAsync(errorData);
-    }
+    return handleHttpError(requestEvent, err);
+  }
+};
+
+/**
+ * Logs a failed request, notifies Slack when relevant, and builds the error response
+ *
+ * @internal
+ */
+const handleHttpError = (requestEvent: RequestEvent, err: any): APIGatewayProxyStructuredResultV2 => {
+  const msg = getErrorMessage(err);
+  const statusCode = err instanceof HttpCodedError ? err.statusCode : HttpStatusCode.InternalServerError;
+  const { requestContext, pathParameters, queryStringParameters } = requestEvent.httpContext!;
+  logger.error(msg, err, {
+    statusCode,
+    requestContext,
+    pathParameters,
+    queryStringParameters
+  });
+
+  if (shouldNotifySlack(err)) {
+    const errorData = extractErrorData(requestEvent, err);
+    notifySlackAsync(errorData);
+  }
+
+  return failure(msg, statusCode, err as Error);
+};
+
+/**
+ * HTTP Lambda entrypoint
+ * Binds the request's correlation ID (`X-Request-Id` header or API Gateway request ID) to the whole
+ * invocation: log lines, core API calls and the `X-Request-Id` response header.
+ * Also binds the request `Origin`, checked against the shareable allowlist and reflected in CORS headers.
+ *
+ * API Gateway cannot stream responses: Server-Sent Events are buffered into the body (see `bufferEventStream`).
+ * Nothing is sent before they end, so events failing to be read still turn into an error response.
+ */
+export const handler = (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyStructuredResultV2> =>
+  withCorrelationId(resolveHttpCorrelationId(event), () =>
+    withRequestOrigin(getHeader(event.headers, 'Origin'), async () => {
+      const response = await dispatchHttpEvent(event, false);
+      if (!('events' in response)) {
+        return response;
+      }
+      try {
+        return await bufferEventStream(response);
+      } catch (err) {
+        return handleHttpError({ ...parseHttpEvent(event, config.httpBasePath), streaming: false }, err);
+      }
+    })
+  );
+
+/**
+ * Writes a response to a Lambda response stream: Server-Sent Events as they come, other responses at once.
+ * Stops writing events once the client is gone.
+ *
+ * @internal
+ */
+const writeHttpResponse = async (
+  response: APIGatewayProxyStructuredResultV2 | EventStreamResult,
+  responseStream: awslambda.HttpResponseStream
+): Promise<void> => {
+  const { statusCode, headers } = response;
+  const stream = awslambda.HttpResponseStream.from(responseStream, { statusCode, headers });
 
-    return failure(msg, statusCode, err as Error);
+  try {
+    if (!('events' in response)) {
+      stream.write(response.body || '');
+      return;
+    }
+    for await (const event of response.events) {
+      if (stream.destroyed || stream.writableEnded) {
+        return;
+      }
+      if (!stream.write(formatServerSentEvent(event))) {
+        await once(stream, 'drain');
+      }
+    }
+  } catch (err) {
+    // Headers are already sent: the client sees the stream end, and resumes with `Last-Event-ID`
+    logger.error(`Server-Sent Events stream failed: ${getErrorMessage(err)}`, err);
+  } finally {
+    stream.end();
   }
 };
+
+/**
+ * Streaming HTTP Lambda entrypoint (Lambda Function URL with `invokeMode: RESPONSE_STREAM`)
+ * Same routes as `handler`, but Server-Sent Events are written as they come, until `SSE_MAX_DURATION_SECONDS`.
+ *
+ * Outside the Lambda runtime, `awslambda` is not defined (or only partly, by the AWS SDK): falls back to `handler`.
+ */
+export const streamHandler =
+  typeof awslambda === 'undefined' || typeof awslambda.streamifyResponse !== 'function'
+    ? handler
+    : awslambda.streamifyResponse<APIGatewayProxyEventV2>((event, responseStream) =>
+        withCorrelationId(resolveHttpCorrelationId(event), () =>
+          withRequestOrigin(getHeader(event.headers, 'Origin'), async () =>
+            writeHttpResponse(await dispatchHttpEvent(event, true), responseStream)
+          )
+        )
+      );
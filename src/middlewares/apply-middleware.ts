@@ -0,0 +1,66 @@
+import { HandlerFn, Middleware } from '../types/handler-types';
+import { RequestEvent } from '../types/request-types';
+import { HandlerResponse } from '../types/response-types';
+
+/**
+ * Composes a handler function with a chain of middleware functions.
+ *
+ * Creates a new handler that executes the provided middlewares in sequence,
+ * with each middleware having the ability to:
+ * - Enrich the event object with additional context, parsed data, or connections
+ * - Short-circuit the pipeline by returning early (e.g., for authentication failures)
+ * - Pass control to the next middleware via the `next()` function
+ * - Handle errors and cleanup operations (e.g., closing database connections)
+ *
+ * Middlewares are executed in the order they appear in the array. Each middleware
+ * must call `next(event)` to continue the chain, or return a response to short-circuit.
+ *
+ * @param handler - The final handler function to execute after all middlewares
+ * @param middlewares - Array of middleware functions to execute in order
+ * @returns A new handler function with the middleware pipeline applied
+ *
+ * @example
+ * ```typescript
+ * // Apply authentication, logging, and validation middlewares
+ * const enhancedHandler = applyMiddleware(originalHandler, [
+ *   authMiddleware,
+ *   loggingMiddleware,
+ *   validationMiddleware
+ * ]);
+ *
+ * // Use in routing map
+ * const routingMap = {
+ *   myResource: {
+ *     post: applyMiddleware(myHandler, [jwtMiddleware])
+ *   }
+ * };
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Example middleware that enriches the event
+ * const authMiddleware: Middleware = async (event, next) => {
+ *   const user = await authenticateUser(event.httpContext.headers.authorization);
+ *   return next({ ...event, user }); // Pass enriched event to next middleware
+ * };
+ * ```
+ */
+export const applyMiddleware = (handler: HandlerFn, middlewares: Middleware[]): HandlerFn => {
+  return async (event: RequestEvent) => {
+    const enrichedEvent = event;
+
+    const executeMiddleware = async (index: number, currentEvent: RequestEvent): Promise<HandlerResponse> => {
+      if (index >= middlewares.length) {
+        // All middlewares executed, call the actual handler
+        return handler(currentEvent);
+      }
+
+      const currentMiddleware = middlewares[index];
+
+      // Pass next function that accepts enriched event
+      return currentMiddleware(currentEvent, (nextEvent) => executeMiddleware(index + 1, nextEvent));
+    };
+
+    return executeMiddleware(0, enrichedEvent);
+  };
+};
@@ -0,0 +1,38 @@
+import { HttpStatusCode } from 'axios';
+import { HttpCodedError } from '../errors/http-error';
+import { authorizationPolicy } from '../services/authorization-policy';
+import { Middleware } from '../types/handler-types';
+import { RequestEvent } from '../types/request-types';
+import logger from '../utils/logger';
+
+/**
+ * Creates a middleware that checks the authenticated shareable grants a route's capability.
+ *
+ * Runs right after authentication (`jwtMiddleware` or `wsAuthMiddleware`) on both transports, and
+ * decides from the shareable's `type` and `channels` using the configured `SHAREABLE_POLICIES`.
+ *
+ * @param capability - The capability required by the route (e.g., "chat:write")
+ * @returns Middleware that rejects shareables not granting the capability
+ *
+ * @throws {HttpCodedError} 403 Forbidden - With code `CAPABILITY_DENIED`, naming the denied capability
+ *
+ * @example
+ * ```typescript
+ * applyMiddleware(uploadModule.getUploadLink as HandlerFn, [jwtMiddleware, authorize('upload:write')]);
+ * // Chat-only shareable => 403 { message: "This shareable does not allow upload:write", error: { code: "CAPABILITY_DENIED" } }
+ * ```
+ */
+export const authorize =
+  (capability: string): Middleware =>
+  async (event: RequestEvent, next) => {
+    const { shareableContext } = event;
+
+    if (!shareableContext || !authorizationPolicy.isGranted(shareableContext, capability)) {
+      logger.warn(`Capability ${capability} denied to ${shareableContext?.type}:${shareableContext?.id}`);
+      throw new HttpCodedError(HttpStatusCode.Forbidden, `This shareable does not allow ${capability}`, {
+        code: 'CAPABILITY_DENIED'
+      });
+    }
+
+    return next(event);
+  };
@@ -0,0 +1,44 @@
+import { timingSafeEqual } from 'node:crypto';
+import { config } from '../config';
+import { Middleware } from '../types/handler-types';
+import { HttpCodedError } from '../errors/http-error';
+import { getHeader } from '../utils/lib';
+import { RequestEvent } from '../types/request-types';
+import { HttpStatusCode } from 'axios';
+
+/**
+ * Middleware that restricts internal routes to AgenticFlo itself.
+ *
+ * Callers must present the backplane token shared with the core API (`AGENTICFLO_BACKPLANE_TOKEN`)
+ * in the Authorization header, the same way this service authenticates against the core API.
+ * Only available over HTTP: WebSocket messages carry no Authorization header.
+ * Attach it as a route guard, so callers without the token are rejected before their body is validated.
+ *
+ * @param event - The incoming request event containing HTTP context and headers
+ * @param next - The next middleware or handler function in the chain
+ * @returns Result from the next handler
+ *
+ * @throws {HttpCodedError} 401 Unauthorized - If the backplane token is missing or does not match
+ *
+ * @example
+ * ```typescript
+ * // Declare an internal route in the registry
+ * { resource: 'internal', action: 'revoke', handler, auth: false, guards: [backplaneMiddleware], transports: ['http'] }
+ * ```
+ */
+export const backplaneMiddleware: Middleware = async (event: RequestEvent, next) => {
+  const expected = config.coreApi.backplaneToken;
+  const authHeader = event.httpContext?.headers ? getHeader(event.httpContext.headers, 'Authorization') : undefined;
+  const match = authHeader ? /^Bearer\s+(.+)$/i.exec(authHeader) : null;
+
+  const provided = Buffer.from(match?.[1].trim() || '');
+  if (
+    !expected ||
+    provided.length !== Buffer.byteLength(expected) ||
+    !timingSafeEqual(provided, Buffer.from(expected))
+  ) {
+    throw new HttpCodedError(HttpStatusCode.Unauthorized, 'Invalid Authorization');
+  }
+
+  return next(event);
+};
@@ -0,0 +1,41 @@
+import { HttpStatusCode } from 'axios';
+import { HttpCodedError } from '../errors/http-error';
+import { Middleware } from '../types/handler-types';
+import { RequestEvent } from '../types/request-types';
+import { JsonSchema } from '../types/schema-types';
+import logger from '../utils/logger';
+import { validateSchema } from '../utils/validation';
+
+/**
+ * Creates a middleware that validates `event.parsedBody` against a route's body schema.
+ *
+ * Runs after authentication and before the handler on both transports, so handlers can
+ * rely on the declared DTO shape instead of casting unchecked input.
+ *
+ * @param schema - The JSON Schema subset the request body must satisfy
+ * @returns Middleware that rejects invalid bodies
+ *
+ * @throws {HttpCodedError} 422 Unprocessable Entity - With code `VALIDATION_FAILED` and the list of field errors
+ *
+ * @example
+ * ```typescript
+ * applyMiddleware(uploadModule.confirmUpload as HandlerFn, [jwtMiddleware, bodyValidator(FileConfirmationDTOSchema)]);
+ * // Body { key: "" } => 422 { message: "Invalid request body", error: { code: "VALIDATION_FAILED", fields: [...] } }
+ * ```
+ */
+export const bodyValidator =
+  (schema: JsonSchema): Middleware =>
+  async (event: RequestEvent, next) => {
+    const fields = validateSchema(schema, event.parsedBody);
+
+    if (fields.length > 0) {
+      const { resource, action } = event.targetResource;
+      logger.warn(`Invalid request body for ${resource}/${action ?? ''}`, { fields });
+      throw new HttpCodedError(HttpStatusCode.UnprocessableEntity, 'Invalid request body', {
+        code: 'VALIDATION_FAILED',
+        fields
+      });
+    }
+
+    return next(event);
+  };
@@ -0,0 +1,85 @@
+import { HttpStatusCode } from 'axios';
+import { HttpCodedError } from '../errors/http-error';
+import { idempotencyStore } from '../services/idempotency-store';
+import { Middleware } from '../types/handler-types';
+import { RequestEvent } from '../types/request-types';
+import { fingerprintRequest, IDEMPOTENCY_KEY_HEADER, scopedIdempotencyKey } from '../utils/idempotency';
+import { getErrorMessage } from '../utils/lib';
+import logger from '../utils/logger';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Middleware replaying the first result of requests resent with the same idempotency key.
+ *
+ * Clients pass the key in the `Idempotency-Key` header (HTTP) or the `idempotencyKey` field (WebSocket).
+ * Keys are scoped to the authenticated shareable and the command, and the first result is stored for
+ * `IDEMPOTENCY_WINDOW_SECONDS`. Requests without a key run as usual. Failed requests release their key,
+ * so the client can retry them.
+ *
+ * @param event - The incoming request event, after authentication and body validation
+ * @param next - The next middleware or handler function in the chain
+ * @returns Result from the next handler, or the stored result of the first request with the same key
+ *
+ * @throws {HttpCodedError} 400 Bad Request - If the idempotency key is empty or too long
+ * @throws {HttpCodedError} 409 Conflict - With code `IDEMPOTENCY_IN_PROGRESS`, while the first request is running
+ * @throws {HttpCodedError} 422 Unprocessable Entity - With code `IDEMPOTENCY_KEY_REUSED`, if the key was used with another body
+ *
+ * @example
+ * ```typescript
+ * // Declare an idempotent route in the registry
+ * { resource: 'webchat', action: 'send', handler, auth: true, idempotent: true, transports: ['http', 'ws'] }
+ * ```
+ */
+export const idempotencyMiddleware: Middleware = async (event: RequestEvent, next) => {
+  const { idempotencyKey, shareableContext, targetResource } = event;
+  if (idempotencyKey === undefined || !shareableContext) {
+    return next(event);
+  }
+
+  if (!idempotencyKey.trim() || idempotencyKey.length > MAX_KEY_LENGTH) {
+    throw new HttpCodedError(
+      HttpStatusCode.BadRequest,
+      `${IDEMPOTENCY_KEY_HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters`
+    );
+  }
+
+  const command = `${targetResource.resource}:${targetResource.action}`;
+  const key = scopedIdempotencyKey(shareableContext, command, idempotencyKey);
+  const fingerprint = fingerprintRequest(event.parsedBody);
+
+  const existing = await idempotencyStore.claim(key, fingerprint);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      throw new HttpCodedError(
+        HttpStatusCode.UnprocessableEntity,
+        `${IDEMPOTENCY_KEY_HEADER} was already used for another request`,
+        { code: 'IDEMPOTENCY_KEY_REUSED' }
+      );
+    }
+    if (existing.status !== 'completed' || !existing.response) {
+      throw new HttpCodedError(HttpStatusCode.Conflict, 'A request with this idempotency key is in progress', {
+        code: 'IDEMPOTENCY_IN_PROGRESS'
+      });
+    }
+
+    logger.info(`Replaying ${command} for idempotency key ${idempotencyKey}`);
+    return existing.response;
+  }
+
+  let response;
+  try {
+    response = await next(event);
+  } catch (error) {
+    await idempotencyStore.release(key).catch((releaseError: unknown) => {
+      logger.warn('Failed to release idempotency key', { error: getErrorMessage(releaseError) });
+    });
+    throw error;
+  }
+
+  // The request succeeded: failing to store its result must not fail it, it is only not replayed
+  await idempotencyStore.complete(key, fingerprint, response).catch((error: unknown) => {
+    logger.warn('Failed to store idempotent response', { error: getErrorMessage(error) });
+  });
+  return response;
+};
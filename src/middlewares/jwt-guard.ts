@@ -2,6 +2,7 @@ import { Middleware } from '../types/handler-types';
 import { HttpCodedError } from '../errors/http-error';
 import { tokenService } from '../services/transient-token';
 import { getHeader } from '../utils/lib';
+import { enforceOriginPolicy } from '../utils/origin';
 import { RequestEvent } from '../types/request-types';
 import { HttpStatusCode } from 'axios';
 
@@ -10,9 +11,10 @@ import { HttpStatusCode } from 'axios';
  *
  * This middleware:
  * 1. Extracts the JWT token from the Authorization header (must be in Bearer token format)
- * 2. Verifies the token using the token service
- * 3. Adds the decoded ShareableContext to the request event
- * 4. Passes the enhanced event to the next middleware/handler
+ * 2. Verifies the token using the token service (signature, expiry, session lifetime and revocation)
+ * 3. Enforces the origin allowlist of the shareable carried by the token
+ * 4. Adds the decoded ShareableContext to the request event
+ * 5. Passes the enhanced event to the next middleware/handler
  *
  * The Authorization header must follow the format: `Bearer <token>`
  *
@@ -22,6 +24,7 @@ import { HttpStatusCode } from 'axios';
  *
  * @throws {HttpCodedError} 401 Unauthorized - If Authorization header is missing or invalid
  * @throws {HttpCodedError} 401 Unauthorized - If Authorization format is not "Bearer <token>"
+ * @throws {HttpCodedError} 403 Forbidden - With code `ORIGIN_NOT_ALLOWED`, if the shareable does not allow the request origin
  * @throws {HttpCodedError} 422 Unprocessable Entity - If token verification fails
  *
  * @example
@@ -66,11 +69,14 @@ export const jwtMiddleware: Middleware = async (event: RequestEvent, next) => {
       throw new HttpCodedError(HttpStatusCode.Unauthorized, 'Invalid Authorization');
     }
 
-    const shareableContext = tokenService.verify(token);
+    const shareableContext = await tokenService.verify(token);
     if (!shareableContext) {
       throw new HttpCodedError(HttpStatusCode.Unauthorized, 'Invalid Authorization');
     }
 
+    // The token carries the shareable origin allowlist
+    enforceOriginPolicy(shareableContext);
+
     // Add shareable context to request context for downstream handlers
     const enhancedEvent: RequestEvent = {
       ...event,
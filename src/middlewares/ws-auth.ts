@@ -1,25 +1,75 @@
-import { ConnectionRecord } from '../types/websocket-types';
+import { Middleware } from '../types/handler-types';
 import { HttpCodedError } from '../errors/http-error';
+import { RequestEvent } from '../types/request-types';
 import { HttpStatusCode } from 'axios';
+import { revocationStore } from '../services/revocation-store';
 import logger from '../utils/logger';
 
 /**
- * WebSocket authentication check
+ * WebSocket counterpart of `jwtMiddleware`
  *
- * Verifies that a connection has been authenticated before processing messages.
- * This should be called for all WebSocket commands EXCEPT the 'authenticate' command itself.
+ * Verifies that the connection a message was received on has been authenticated before
+ * processing it. This is applied to every route declared with `auth: true` in the route registry.
  *
- * @param connection - The connection record from DynamoDB
- * @param command - The command being executed (for logging purposes)
- * @throws {HttpCodedError} 401 - If connection is not authenticated
+ * This middleware:
+ * 1. Reads the `ConnectionRecord` attached to the event by the WebSocket router
+ * 2. Rejects the message if the connection has not completed the `authenticate` command
+ * 3. Rejects the message if the connection was authenticated with a transient token that has expired since
+ * 4. Rejects the message, and closes the connection, if that token was revoked since (see `revocationStore`)
+ * 5. Adds the connection's ShareableContext to the request event
+ * 6. Passes the enhanced event to the next middleware/handler
+ *
+ * @param event - The incoming request event containing the WebSocket connection record
+ * @param next - The next middleware or handler function in the chain
+ * @returns Result from the next handler with the enhanced event containing shareableContext
+ *
+ * @throws {HttpCodedError} 401 Unauthorized - If the connection is not authenticated (the connection is then closed)
+ * @throws {HttpCodedError} 401 Unauthorized - With code `AUTH_EXPIRED`, if the connection authentication has expired
+ * @throws {HttpCodedError} 401 Unauthorized - With code `AUTH_REVOKED`, if the token was revoked (the connection is then closed)
  */
-export function requireAuthentication(connection: ConnectionRecord, command: string): void {
-  if (!connection.authenticated || !connection.shareableContext) {
-    logger.warn(`Unauthenticated connection ${connection.connectionId} attempted to execute: ${command}`);
+export const wsAuthMiddleware: Middleware = async (event: RequestEvent, next) => {
+  const { connection } = event;
+
+  if (!connection?.authenticated || !connection.shareableContext) {
+    const { resource, action } = event.targetResource;
+    const command = action ? `${resource}:${action}` : resource;
+    logger.warn(`Unauthenticated connection ${connection?.connectionId} attempted to execute: ${command}`);
     throw new HttpCodedError(
       HttpStatusCode.Unauthorized,
       'Connection not authenticated. Please send authenticate command first.',
+      undefined,
       true // shouldClose - disconnect unauthenticated clients
     );
   }
-}
+
+  if (connection.authExpiresAt && connection.authExpiresAt <= Date.now() / 1000) {
+    logger.warn(`Connection ${connection.connectionId} authentication expired`);
+    throw new HttpCodedError(
+      HttpStatusCode.Unauthorized,
+      'Connection authentication expired. Please send authenticate command again.',
+      { code: 'AUTH_EXPIRED' }
+    );
+  }
+
+  const { authIssuedAt, authExpiresAt, authJti } = connection;
+  if (
+    authIssuedAt !== undefined &&
+    authExpiresAt !== undefined &&
+    (await revocationStore.isRevoked({
+      ...connection.shareableContext,
+      iat: authIssuedAt,
+      exp: authExpiresAt,
+      jti: authJti
+    }))
+  ) {
+    logger.warn(`Connection ${connection.connectionId} authentication revoked`);
+    throw new HttpCodedError(
+      HttpStatusCode.Unauthorized,
+      'Connection authentication revoked',
+      { code: 'AUTH_REVOKED' },
+      true // shouldClose - revoked tokens cannot authenticate again
+    );
+  }
+
+  return next({ ...event, shareableContext: connection.shareableContext });
+};
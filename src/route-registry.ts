@@ -0,0 +1,314 @@
+import { config } from './config';
+import { authModule } from './handlers/auth';
+import { configurationModule } from './handlers/configuration';
+import { healthModule } from './handlers/health';
+import { CreateMetaModule } from './handlers/meta';
+import { resourceModule } from './handlers/resource';
+import { revocationModule } from './handlers/revocation';
+import { uploadModule } from './handlers/upload';
+import { webchatModule } from './handlers/webchat';
+import { backplaneMiddleware } from './middlewares/backplane-guard';
+import {
+  ChatMessageSchema,
+  FileConfirmationDTOSchema,
+  FileCreateDTOSchema,
+  FileDTOSchema,
+  SignedUrlSchema,
+  WebChatConversationSchema,
+  WebChatFeedbackSchema
+} from './schemas/agentifclo-schemas';
+import {
+  AuthenticateRequestSchema,
+  InvalidateConfigurationRequestSchema,
+  RefreshTokenRequestSchema,
+  ResourceRequestSchema,
+  RevokeRequestSchema,
+  WebchatFeedbackRequestSchema,
+  WebchatHistoryRequestSchema,
+  WebchatInitRequestSchema,
+  WebchatMessageRequestSchema,
+  WebchatRequestPayloadSchema,
+  WebchatStreamQuerySchema
+} from './schemas/request-schemas';
+import {
+  AuthenticateResponseSchema,
+  CancelReplyResponseSchema,
+  HealthResponseSchema,
+  InvalidateConfigurationResponseSchema,
+  ResourceResponseSchema,
+  RevokeResponseSchema,
+  WebchatDeltaSchema,
+  WebchatHistoryPageSchema,
+  WebchatInitializationSchema
+} from './schemas/response-schemas';
+import { HandlerFn } from './types/handler-types';
+import { RouteDefinition, Transport } from './types/route-types';
+
+/**
+ * Meta handlers document the registry itself, so they receive it lazily
+ */
+const metaModule = CreateMetaModule(() => routes, config.httpBasePath);
+
+/**
+ * Single source of truth for every route exposed by the service.
+ *
+ * Both `http-router.ts` and `websocket-router.ts` derive their routing tables from this list,
+ * so a new action only needs to be declared here to become available on the listed transports
+ * with the same authentication semantics:
+ * - HTTP: `auth: true` routes are wrapped with `jwtMiddleware`
+ * - WebSocket: `auth: true` routes require the connection to be authenticated first
+ * - Both: `capability` routes also require the shareable to grant that capability (403 otherwise)
+ *
+ * Routes declaring a `bodySchema` get their body validated before the handler runs (422 on failure).
+ *
+ * @example
+ * ```typescript
+ * { resource: 'reports', action: 'create', handler: reportsModule.create as HandlerFn, auth: true, transports: ['http', 'ws'] }
+ * // => POST /reports/create and { command: "reports:create" }
+ * ```
+ */
+export const routes: RouteDefinition[] = [
+  // Authentication handler - must be called first after connection
+  // Client sends: { command: "authenticate", token: "shareable-token" }
+  {
+    resource: 'authenticate',
+    description: 'Authenticate the WebSocket connection with a shareable token',
+    handler: authModule.authenticate,
+    auth: false,
+    bodySchema: AuthenticateRequestSchema,
+    responseSchema: AuthenticateResponseSchema,
+    transports: ['ws']
+  },
+
+  // Public resource: shareable token validation, to obtain shared resource details (no authentication required)
+  {
+    resource: 'resource',
+    action: 'get',
+    description: 'Validate a shareable token and obtain its configuration and a transient auth token',
+    handler: resourceModule.get as HandlerFn,
+    auth: false,
+    bodySchema: ResourceRequestSchema,
+    responseSchema: ResourceResponseSchema,
+    transports: ['http', 'ws']
+  },
+
+  // Transient token refresh, for clients whose token from resource/get is about to expire (no authentication required:
+  // the possibly expired token is verified by the handler itself)
+  {
+    resource: 'auth',
+    action: 'refresh',
+    description: 'Exchange a transient auth token, possibly expired within a grace window, for a new one',
+    handler: authModule.refresh,
+    auth: false,
+    bodySchema: RefreshTokenRequestSchema,
+    responseSchema: ResourceResponseSchema,
+    transports: ['http', 'ws']
+  },
+
+  // Public keys of the transient tokens, for other services to verify them
+  {
+    resource: 'auth',
+    action: 'jwks',
+    method: 'GET',
+    description: 'Get the JSON Web Key Set of the public keys transient auth tokens are signed with',
+    handler: authModule.jwks,
+    auth: false,
+    transports: ['http']
+  },
+
+  // Webchat
+  // To get webchat initialization: latest messages, pending tasks, conversation status, unread count...
+  {
+    resource: 'webchat',
+    action: 'init',
+    description: 'Get the state of a webchat session and its latest messages, to restore it in a single call',
+    handler: webchatModule.init as HandlerFn,
+    auth: true,
+    capability: 'chat:read',
+    bodySchema: WebchatInitRequestSchema,
+    responseSchema: WebchatInitializationSchema,
+    transports: ['http', 'ws']
+  },
+  // To page through the message history
+  {
+    resource: 'webchat',
+    action: 'get-history',
+    description: 'Get a page of the message history of a webchat session',
+    handler: webchatModule.getHistory as HandlerFn,
+    auth: true,
+    capability: 'chat:read',
+    bodySchema: WebchatHistoryRequestSchema,
+    responseSchema: WebchatHistoryPageSchema,
+    transports: ['http', 'ws']
+  },
+  // To send a message
+  {
+    resource: 'webchat',
+    action: 'send',
+    description: 'Send a message in a webchat session',
+    handler: webchatModule.send as HandlerFn,
+    auth: true,
+    capability: 'chat:write',
+    bodySchema: WebchatMessageRequestSchema,
+    idempotent: true,
+    responseSchema: ChatMessageSchema,
+    deltaSchema: WebchatDeltaSchema,
+    transports: ['http', 'ws']
+  },
+  // To cancel the reply being streamed (see `AGENTICFLO_STREAMING`)
+  {
+    resource: 'webchat',
+    action: 'cancel',
+    description: 'Cancel the reply being streamed in a webchat session',
+    handler: webchatModule.cancel as HandlerFn,
+    auth: true,
+    capability: 'chat:write',
+    bodySchema: WebchatRequestPayloadSchema,
+    responseSchema: CancelReplyResponseSchema,
+    transports: ['http', 'ws']
+  },
+  // Conversation lifecycle: finish, reopen, and feedback on the conversation or one of its messages
+  {
+    resource: 'webchat',
+    action: 'finish',
+    description: 'Finish a webchat conversation',
+    handler: webchatModule.finish as HandlerFn,
+    auth: true,
+    capability: 'chat:write',
+    bodySchema: WebchatRequestPayloadSchema,
+    idempotent: true,
+    responseSchema: WebChatConversationSchema,
+    transports: ['http', 'ws']
+  },
+  {
+    resource: 'webchat',
+    action: 'reopen',
+    description: 'Reopen a finished webchat conversation',
+    handler: webchatModule.reopen as HandlerFn,
+    auth: true,
+    capability: 'chat:write',
+    bodySchema: WebchatRequestPayloadSchema,
+    idempotent: true,
+    responseSchema: WebChatConversationSchema,
+    transports: ['http', 'ws']
+  },
+  {
+    resource: 'webchat',
+    action: 'feedback',
+    description: 'Give a thumb or a 1-5 rating, with a comment, on a webchat conversation or one of its messages',
+    handler: webchatModule.feedback as HandlerFn,
+    auth: true,
+    capability: 'chat:write',
+    bodySchema: WebchatFeedbackRequestSchema,
+    idempotent: true,
+    responseSchema: WebChatFeedbackSchema,
+    transports: ['http', 'ws']
+  },
+  // To follow replies and session events over HTTP, for clients that cannot use WebSockets
+  {
+    resource: 'webchat',
+    action: 'stream',
+    method: 'GET',
+    description: 'Follow the events of a webchat session as Server-Sent Events',
+    handler: webchatModule.stream as HandlerFn,
+    auth: true,
+    capability: 'chat:read',
+    querySchema: WebchatStreamQuerySchema,
+    serverSentEvents: true,
+    transports: ['http']
+  },
+
+  // Upload
+  // To get an upload link
+  {
+    resource: 'upload',
+    action: 'get-link',
+    description: 'Get a presigned link to upload a file',
+    handler: uploadModule.getUploadLink as HandlerFn,
+    auth: true,
+    capability: 'upload:write',
+    bodySchema: FileCreateDTOSchema,
+    responseSchema: SignedUrlSchema,
+    transports: ['http', 'ws']
+  },
+  // To confirm an uploaded file
+  {
+    resource: 'upload',
+    action: 'confirm',
+    description: 'Confirm a file uploaded through a presigned link',
+    handler: uploadModule.confirmUpload as HandlerFn,
+    auth: true,
+    capability: 'upload:write',
+    bodySchema: FileConfirmationDTOSchema,
+    idempotent: true,
+    responseSchema: FileDTOSchema,
+    transports: ['http', 'ws']
+  },
+
+  // Internal: called by AgenticFlo with the backplane token, e.g. when a shareable is disabled
+  {
+    resource: 'internal',
+    action: 'revoke',
+    description: 'Revoke a transient token by jti, or every token of a shareable (backplane token required)',
+    handler: revocationModule.revoke,
+    auth: false,
+    bodySchema: RevokeRequestSchema,
+    responseSchema: RevokeResponseSchema,
+    guards: [backplaneMiddleware],
+    transports: ['http']
+  },
+  // Internal: called by AgenticFlo with the backplane token when a shareable changes
+  {
+    resource: 'internal',
+    action: 'invalidate-configuration',
+    description: 'Drop cached shareable configurations, by token or by shareable (backplane token required)',
+    handler: configurationModule.invalidate,
+    auth: false,
+    bodySchema: InvalidateConfigurationRequestSchema,
+    responseSchema: InvalidateConfigurationResponseSchema,
+    guards: [backplaneMiddleware],
+    transports: ['http']
+  },
+
+  // Health of the service, including the circuit breakers of the core API routes
+  {
+    resource: 'health',
+    action: 'check',
+    method: 'GET',
+    description: 'Get the health of the service and the state of the core API circuit breakers',
+    handler: healthModule.check,
+    auth: false,
+    responseSchema: HealthResponseSchema,
+    transports: ['http']
+  },
+
+  // API descriptions, served as-is for client code generation
+  {
+    resource: 'meta',
+    action: 'openapi',
+    method: 'GET',
+    description: 'Get the OpenAPI 3.1 document of the HTTP API',
+    handler: metaModule.openapi,
+    auth: false,
+    transports: ['http']
+  },
+  {
+    resource: 'meta',
+    action: 'asyncapi',
+    method: 'GET',
+    description: 'Get the AsyncAPI 3.0 document of the WebSocket command protocol',
+    handler: metaModule.asyncapi,
+    auth: false,
+    transports: ['http', 'ws']
+  }
+];
+
+/**
+ * Returns the routes exposed on the given transport
+ *
+ * @param transport - The transport to filter by
+ * @returns Route definitions available on that transport
+ */
+export function getRoutesFor(transport: Transport): RouteDefinition[] {
+  return routes.filter((route) => route.transports.includes(transport));
+}
@@ -0,0 +1,122 @@
+import { JsonSchema } from '../types/schema-types';
+
+/**
+ * Runtime schemas for the DTOs declared in `types/agentifclo-types.ts`.
+ * Keep both files in sync when a DTO changes.
+ */
+
+export const ChatMessageSchema: JsonSchema = {
+  type: 'object',
+  title: 'ChatMessage',
+  properties: {
+    id: { type: 'string', description: 'Message ID, to give feedback on the message' },
+    role: { type: 'string' },
+    content: { type: 'string' }
+  },
+  required: ['role', 'content']
+};
+
+export const WebChatTaskSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebChatTask',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    status: { type: 'string', description: 'Backend task status, e.g. "running" or "waiting"' },
+    createdAt: { type: 'string' }
+  },
+  required: ['id', 'name', 'status']
+};
+
+export const WebChatHistorySchema: JsonSchema = {
+  type: 'object',
+  title: 'WebChatHistory',
+  properties: {
+    sessionId: { type: 'string' },
+    messages: { type: 'array', items: ChatMessageSchema },
+    hasMore: { type: 'boolean' },
+    nextCursor: { type: 'string', nullable: true },
+    status: { type: 'string', enum: ['open', 'finished'] },
+    finishedAt: { type: 'string', nullable: true },
+    pendingTasks: { type: 'array', items: WebChatTaskSchema },
+    unreadCount: { type: 'integer', minimum: 0 },
+    metadata: { type: 'object' }
+  },
+  required: ['sessionId', 'messages']
+};
+
+export const WebChatConversationSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebChatConversation',
+  properties: {
+    sessionId: { type: 'string' },
+    status: { type: 'string', enum: ['open', 'finished'] },
+    finishedAt: { type: 'string', nullable: true }
+  },
+  required: ['sessionId', 'status']
+};
+
+export const WebChatFeedbackSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebChatFeedback',
+  properties: {
+    id: { type: 'string' },
+    sessionId: { type: 'string' },
+    messageId: { type: 'string' },
+    thumbs: { type: 'string', enum: ['up', 'down'] },
+    rating: { type: 'integer', minimum: 1, maximum: 5 },
+    comment: { type: 'string' },
+    createdAt: { type: 'string' }
+  },
+  required: ['id', 'sessionId', 'createdAt']
+};
+
+export const FileCreateDTOSchema: JsonSchema = {
+  type: 'object',
+  title: 'FileCreateDTO',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    mime: { type: 'string', minLength: 1 },
+    hash: { type: 'string', minLength: 1 },
+    size: { type: 'integer', minimum: 0 },
+    virtualPath: { type: 'string' },
+    source: { type: 'string' }
+  },
+  required: ['name', 'mime', 'hash', 'size'],
+  additionalProperties: false
+};
+
+export const FileConfirmationDTOSchema: JsonSchema = {
+  type: 'object',
+  title: 'FileConfirmationDTO',
+  properties: {
+    key: { type: 'string', minLength: 1 },
+    size: { type: 'integer', minimum: 0 }
+  },
+  required: ['key', 'size'],
+  additionalProperties: false
+};
+
+export const FileDTOSchema: JsonSchema = {
+  type: 'object',
+  title: 'FileDTO',
+  properties: {
+    name: { type: 'string' },
+    mime: { type: 'string' },
+    virtualPath: { type: 'string' },
+    size: { type: 'integer' },
+    hash: { type: 'string', nullable: true },
+    metadata: { type: 'object' }
+  },
+  required: ['name', 'mime', 'virtualPath', 'size', 'hash']
+};
+
+export const SignedUrlSchema: JsonSchema = {
+  type: 'object',
+  title: 'SignedUrl',
+  properties: {
+    url: { type: 'string' },
+    file: FileDTOSchema
+  },
+  required: ['url', 'file']
+};
@@ -0,0 +1,128 @@
+import { JsonSchema } from '../types/schema-types';
+
+/**
+ * Runtime schemas for the request payloads declared in `types/request-types.ts`.
+ * Keep both files in sync when a payload changes.
+ */
+
+export const WebchatRequestPayloadSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatRequestPayload',
+  properties: {
+    sessionId: { type: 'string', minLength: 1 }
+  },
+  required: ['sessionId']
+};
+
+export const WebchatMessageRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatMessageRequest',
+  properties: {
+    sessionId: { type: 'string', minLength: 1 },
+    message: { type: 'string', minLength: 1 }
+  },
+  required: ['sessionId', 'message']
+};
+
+export const WebchatHistoryRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatHistoryRequest',
+  properties: {
+    sessionId: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Messages per page (default: 50)' },
+    before: { type: 'string', minLength: 1, description: 'Cursor: messages older than it (default: the latest)' },
+    after: { type: 'string', minLength: 1, description: 'Cursor: messages newer than it, to page forwards' },
+    roles: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Only messages of these roles' }
+  },
+  required: ['sessionId']
+};
+
+export const WebchatInitRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatInitRequest',
+  properties: {
+    sessionId: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Messages in the history page (default: 50)' }
+  },
+  required: ['sessionId']
+};
+
+export const WebchatFeedbackRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatFeedbackRequest',
+  properties: {
+    sessionId: { type: 'string', minLength: 1 },
+    messageId: {
+      type: 'string',
+      minLength: 1,
+      description: 'Message the feedback is about (default: the conversation)'
+    },
+    thumbs: { type: 'string', enum: ['up', 'down'], description: 'Either thumbs or rating is required' },
+    rating: { type: 'integer', minimum: 1, maximum: 5, description: 'Either thumbs or rating is required' },
+    comment: { type: 'string', maxLength: 2000 }
+  },
+  required: ['sessionId']
+};
+
+export const WebchatStreamQuerySchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatStreamQuery',
+  properties: {
+    sessionId: { type: 'string', minLength: 1 },
+    lastEventId: { type: 'string', description: 'ID of the last event received, when `Last-Event-ID` cannot be sent' }
+  },
+  required: ['sessionId']
+};
+
+export const ResourceRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'ResourceRequest',
+  properties: {
+    token: { type: 'string', minLength: 1 }
+  },
+  required: ['token']
+};
+
+export const RefreshTokenRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'RefreshTokenRequest',
+  properties: {
+    authToken: { type: 'string', minLength: 1 }
+  },
+  required: ['authToken']
+};
+
+export const RevokeRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'RevokeRequest',
+  description: 'Either `jti`, or `shareableType` and `shareableId`, or both',
+  properties: {
+    jti: { type: 'string', minLength: 1 },
+    shareableType: { type: 'string', minLength: 1 },
+    shareableId: { type: 'string', minLength: 1 }
+  },
+  additionalProperties: false
+};
+
+export const InvalidateConfigurationRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'InvalidateConfigurationRequest',
+  description: 'Either the shareable `token`, or `shareableType` and `shareableId`, or both',
+  properties: {
+    token: { type: 'string', minLength: 1 },
+    shareableType: { type: 'string', minLength: 1 },
+    shareableId: { type: 'string', minLength: 1 }
+  },
+  additionalProperties: false
+};
+
+export const AuthenticateRequestSchema: JsonSchema = {
+  type: 'object',
+  title: 'AuthenticateRequest',
+  description: 'Either the shareable `token`, or the transient `authToken` from `resource/get`',
+  properties: {
+    token: { type: 'string', minLength: 1 },
+    authToken: { type: 'string', minLength: 1 },
+    sessionId: { type: 'string' }
+  }
+};
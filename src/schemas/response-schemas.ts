@@ -0,0 +1,163 @@
+import { JsonSchema } from '../types/schema-types';
+import { ChatMessageSchema, WebChatTaskSchema } from './agentifclo-schemas';
+import { ShareableContextSchema } from './shareable-context-schemas';
+
+/**
+ * Runtime schemas for `types/response-types.ts` and the results returned by handlers.
+ * Only used to document the API; responses are not validated at runtime.
+ */
+
+export const FieldErrorSchema: JsonSchema = {
+  type: 'object',
+  title: 'FieldError',
+  properties: {
+    field: { type: 'string', description: 'Dotted path to the offending field' },
+    message: { type: 'string' }
+  },
+  required: ['field', 'message']
+};
+
+export const PublicErrorSchema: JsonSchema = {
+  type: 'object',
+  title: 'PublicError',
+  properties: {
+    message: { type: 'string' },
+    code: { type: 'string' },
+    fields: { type: 'array', items: FieldErrorSchema },
+    retryAfterSeconds: { type: 'integer', description: 'When the request can be retried' }
+  },
+  required: ['message']
+};
+
+export const ResourceResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'ResourceResponse',
+  properties: {
+    config: ShareableContextSchema,
+    authToken: { type: 'string', description: 'Transient JWT to send as `Authorization: Bearer <authToken>`' }
+  },
+  required: ['config', 'authToken']
+};
+
+export const AuthenticateResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'AuthenticateResponse',
+  properties: {
+    authenticated: { type: 'boolean' },
+    config: ShareableContextSchema,
+    expiresAt: {
+      type: 'integer',
+      description:
+        'When authenticated with `authToken`: epoch seconds after which the connection must authenticate again'
+    }
+  },
+  required: ['authenticated', 'config']
+};
+
+export const WebchatDeltaSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatDelta',
+  properties: {
+    sessionId: { type: 'string' },
+    index: { type: 'integer', minimum: 0, description: 'Position of the chunk in the reply, from 0' },
+    delta: { type: 'string', description: 'Text appended to the reply' }
+  },
+  required: ['sessionId', 'index', 'delta']
+};
+
+export const WebchatHistoryPageSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatHistoryPage',
+  properties: {
+    sessionId: { type: 'string' },
+    messages: { type: 'array', items: ChatMessageSchema, description: 'In chronological order' },
+    hasMore: { type: 'boolean', description: 'Whether more messages remain in the paging direction' },
+    nextCursor: {
+      type: 'string',
+      nullable: true,
+      description: 'Cursor to send as `before` (or `after`) for the next page, null without more messages'
+    }
+  },
+  required: ['sessionId', 'messages', 'hasMore', 'nextCursor']
+};
+
+export const WebchatInitializationSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebchatInitialization',
+  properties: {
+    sessionId: { type: 'string' },
+    status: { type: 'string', enum: ['open', 'finished'] },
+    finishedAt: { type: 'string', nullable: true },
+    pendingTasks: { type: 'array', items: WebChatTaskSchema, description: 'Agent tasks still running' },
+    unreadCount: { type: 'integer', minimum: 0, description: 'Assistant messages the user has not seen yet' },
+    metadata: { type: 'object', description: 'Free-form session data set by the backend' },
+    history: WebchatHistoryPageSchema
+  },
+  required: ['sessionId', 'status', 'finishedAt', 'pendingTasks', 'unreadCount', 'metadata', 'history']
+};
+
+export const CancelReplyResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'CancelReplyResponse',
+  properties: {
+    cancelled: { type: 'boolean' }
+  },
+  required: ['cancelled']
+};
+
+export const RevokeResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'RevokeResponse',
+  properties: {
+    revoked: { type: 'boolean' },
+    disconnected: { type: 'integer', description: 'WebSocket connections closed for a revoked shareable' }
+  },
+  required: ['revoked', 'disconnected']
+};
+
+export const InvalidateConfigurationResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'InvalidateConfigurationResponse',
+  properties: {
+    invalidated: { type: 'boolean' }
+  },
+  required: ['invalidated']
+};
+
+export const HealthResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'HealthResponse',
+  properties: {
+    status: { type: 'string', enum: ['ok', 'degraded'], description: 'Degraded while a circuit is not closed' },
+    circuits: {
+      type: 'array',
+      description: 'Circuit breakers of the core API routes used by this instance',
+      items: {
+        type: 'object',
+        properties: {
+          route: { type: 'string', description: 'Core API route, e.g. "GET /shareable"' },
+          state: { type: 'string', enum: ['closed', 'open', 'half-open'] },
+          failures: { type: 'integer', description: 'Consecutive failures' },
+          retryAfterSeconds: { type: 'integer', description: 'While open, until the next probe request' }
+        },
+        required: ['route', 'state', 'failures']
+      }
+    }
+  },
+  required: ['status', 'circuits']
+};
+
+export const WebsocketResponseSchema: JsonSchema = {
+  type: 'object',
+  title: 'WebsocketResponse',
+  description: 'Frame sent by the server in reply to a command',
+  properties: {
+    command: { type: 'string', description: 'Command this frame replies to' },
+    requestId: { type: 'string', description: 'Echo of the `requestId` sent with the command, if any' },
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    statusCode: { type: 'integer', description: 'HTTP-equivalent status code' },
+    error: PublicErrorSchema
+  },
+  required: ['command', 'success', 'message']
+};
@@ -0,0 +1,21 @@
+import { JsonSchema } from '../types/schema-types';
+
+/**
+ * Runtime schema for `ShareableContext` declared in `types/shareable-context.ts`.
+ */
+export const ShareableContextSchema: JsonSchema = {
+  type: 'object',
+  title: 'ShareableContext',
+  properties: {
+    token: { type: 'string' },
+    type: { type: 'string' },
+    id: { type: 'string' },
+    channels: { type: 'array', items: { type: 'string' } },
+    allowedOrigins: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Origins allowed to embed the shareable, exact or with a subdomain wildcard. Any origin if absent'
+    }
+  },
+  required: ['token', 'type', 'id']
+};
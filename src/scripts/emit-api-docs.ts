@@ -0,0 +1,46 @@
+import { writeFileSync } from 'node:fs';
+import { buildAsyncApiDocument } from '../utils/asyncapi';
+import { buildOpenApiDocument, DocumentObject } from '../utils/openapi';
+
+/**
+ * Writes a generated API document to disk, for client code generation.
+ *
+ * Usage: `npm run docs:openapi`, `npm run docs:asyncapi` or `node .esbuild/emit-api-docs.js <format> [outFile]`
+ */
+
+/**
+ * Document generators by format
+ * The route registry is imported lazily so that placeholder settings can be set first:
+ * services read their environment at import time, but generating documents never calls them.
+ */
+const generators: Record<string, () => Promise<DocumentObject>> = {
+  openapi: async () => {
+    const { getRoutesFor } = await import('../route-registry');
+    return buildOpenApiDocument(getRoutesFor('http'), process.env.HTTP_BASE_PATH);
+  },
+  asyncapi: async () => {
+    const { getRoutesFor } = await import('../route-registry');
+    return buildAsyncApiDocument(getRoutesFor('ws'));
+  }
+};
+
+async function main(): Promise<void> {
+  const [format = 'openapi', outFile = `${format}.json`] = process.argv.slice(2);
+  const generate = generators[format];
+  if (!generate) {
+    throw new Error(`Unknown document format '${format}', expected one of: ${Object.keys(generators).join(', ')}`);
+  }
+
+  process.env.AGENTICFLO_BASE_URL = process.env.AGENTICFLO_BASE_URL || 'http://localhost';
+  process.env.AGENTICFLO_BACKPLANE_TOKEN = process.env.AGENTICFLO_BACKPLANE_TOKEN || 'unused';
+  process.env.CLIENT_AUTH_SECRET = process.env.CLIENT_AUTH_SECRET || 'unused';
+
+  const document = await generate();
+  writeFileSync(outFile, `${JSON.stringify(document, null, 2)}\n`);
+  process.stdout.write(`Wrote ${format} document to ${outFile}\n`);
+}
+
+main().catch((err) => {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+});
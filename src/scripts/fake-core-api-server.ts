@@ -0,0 +1,196 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  ChatMessage,
+  WebChatConversation,
+  WebChatFeedbackDTO,
+  WebChatHistory,
+  WebChatStreamEvent
+} from '../types/agentifclo-types';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body = '';
+  for await (const chunk of req) {
+    body += String(chunk);
+  }
+  return body ? (JSON.parse(body) as Record<string, unknown>) : {};
+}
+
+function send(res: ServerResponse, statusCode: number, result?: unknown, message = 'Ok') {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ success: statusCode < 400, message, result }));
+}
+
+/**
+ * Local stand-in for the AgenticFlo core API, to run the service offline without a backend.
+ *
+ * Run by `npm run fake:core-api` (see `fake-core-api.ts`), and by tests of the core API service.
+ *
+ * Every shareable token is valid, and replies echo the message sent, one word per chunk when streamed.
+ * History pages use the position of messages as cursors. Conversations can be finished and reopened, and
+ * feedback on an unknown message is refused (404).
+ * Messages drive the failure cases of streamed replies:
+ * - containing `[error]`: the stream ends with an `error` event after a few chunks
+ * - containing `[drop]`: the connection is cut after a few chunks, without a final event
+ * - containing `[stall]`: the stream stays open after a few chunks, without sending anything else
+ * - `DELETE /webchat/{sessionId}/stream` cancels the reply of the session, ending it with a `cancelled` event
+ *
+ * @param chunkDelayMs - Delay between the chunks of streamed replies
+ * @returns The server, not listening yet
+ */
+export const CreateFakeCoreApi = (chunkDelayMs = 100): Server => {
+  /** Messages exchanged per session, served as history */
+  const histories = new Map<string, ChatMessage[]>();
+  /** Finished conversations, with the date they were finished */
+  const finished = new Map<string, string>();
+  /** Sessions whose reply is being streamed, with the function cancelling it */
+  const streams = new Map<string, () => void>();
+
+  function reply(sessionId: string, message: string): ChatMessage {
+    const history = histories.get(sessionId) || [];
+    const question = { id: `msg_${history.length}`, role: 'user', content: message };
+    const answer = { id: `msg_${history.length + 1}`, role: 'assistant', content: `You said: ${message}` };
+    histories.set(sessionId, [...history, question, answer]);
+    return answer;
+  }
+
+  function conversation(sessionId: string): WebChatConversation {
+    const finishedAt = finished.get(sessionId) || null;
+    return { sessionId, status: finishedAt ? 'finished' : 'open', finishedAt };
+  }
+
+  async function streamReply(res: ServerResponse, sessionId: string, message: string) {
+    const answer = reply(sessionId, message);
+    const words = answer.content.split(/(?<= )/);
+    let cancelled = false;
+    streams.get(sessionId)?.();
+    streams.set(sessionId, () => (cancelled = true));
+
+    const write = (event: WebChatStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+
+    try {
+      for (const [index, word] of words.entries()) {
+        if (cancelled) {
+          write({ type: 'cancelled' });
+          return res.end();
+        }
+        if (index === 3 && message.includes('[error]')) {
+          write({ type: 'error', message: 'The agent failed to answer', code: 'AGENT_ERROR' });
+          return res.end();
+        }
+        if (index === 3 && message.includes('[drop]')) {
+          return res.destroy();
+        }
+        if (index === 3 && message.includes('[stall]')) {
+          return;
+        }
+        write({ type: 'delta', delta: word });
+        await sleep(chunkDelayMs);
+      }
+      write({ type: 'message', message: answer });
+      res.end();
+    } finally {
+      streams.delete(sessionId);
+    }
+  }
+
+  function historyPage(sessionId: string, query: URLSearchParams): WebChatHistory {
+    const roles = query.get('roles')?.split(',');
+    const limit = Number(query.get('limit') || 50);
+    const before = query.get('before');
+    const after = query.get('after');
+
+    const positioned = (histories.get(sessionId) || [])
+      .map((message, position) => ({ message, position }))
+      .filter(({ message }) => !roles || roles.includes(message.role));
+
+    // Backwards from the latest messages (or `before`), or forwards from `after`
+    const candidates = after
+      ? positioned.filter(({ position }) => position > Number(after))
+      : positioned.filter(({ position }) => before === null || position < Number(before));
+    const page = after ? candidates.slice(0, limit) : candidates.slice(-limit);
+    const hasMore = candidates.length > page.length;
+    const edge = after ? page[page.length - 1] : page[0];
+
+    return {
+      ...conversation(sessionId), // sessionId, status, finishedAt
+      messages: page.map(({ message }) => message),
+      hasMore,
+      nextCursor: hasMore && edge ? String(edge.position) : null,
+      // The reply being streamed, if any
+      pendingTasks: streams.has(sessionId) ? [{ id: `task_${sessionId}`, name: 'reply', status: 'running' }] : [],
+      unreadCount: 0,
+      metadata: { messageCount: histories.get(sessionId)?.length || 0 }
+    };
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse) {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    const [resource, ...rest] = pathname.split('/').filter(Boolean);
+    const token = req.headers['x-shareable-token'];
+
+    if (req.method === 'GET' && resource === 'shareable') {
+      return send(res, 200, { token, type: 'webchat', id: String(token), channels: ['default'] });
+    }
+
+    if (resource === 'webchat') {
+      if (req.method === 'GET' && rest[0] === 'history') {
+        return send(res, 200, historyPage(rest[1], searchParams));
+      }
+      const [sessionId, action] = rest;
+      if (req.method === 'POST' && !action) {
+        const { message } = await readBody(req);
+        return send(res, 200, reply(sessionId, String(message)));
+      }
+      if (req.method === 'POST' && action === 'stream') {
+        const { message } = await readBody(req);
+        return streamReply(res, sessionId, String(message));
+      }
+      if (req.method === 'DELETE' && action === 'stream') {
+        streams.get(sessionId)?.();
+        return send(res, 200);
+      }
+      if (req.method === 'POST' && action === 'finish') {
+        finished.set(sessionId, finished.get(sessionId) || new Date().toISOString());
+        return send(res, 200, conversation(sessionId));
+      }
+      if (req.method === 'POST' && action === 'reopen') {
+        finished.delete(sessionId);
+        return send(res, 200, conversation(sessionId));
+      }
+      if (req.method === 'POST' && action === 'feedback') {
+        const feedback = (await readBody(req)) as WebChatFeedbackDTO;
+        const messages = histories.get(sessionId) || [];
+        if (feedback.messageId && !messages.some((message) => message.id === feedback.messageId)) {
+          return send(res, 404, undefined, `Unknown message ${feedback.messageId}`);
+        }
+        const id = `fb_${Date.now()}`;
+        return send(res, 200, { ...feedback, id, sessionId, createdAt: new Date().toISOString() });
+      }
+    }
+
+    if (req.method === 'POST' && resource === 'upload') {
+      const body = await readBody(req);
+      const file = { name: body.name || body.key, mime: body.mime || 'application/octet-stream', size: body.size };
+      if (rest[0] === 'get-link') {
+        return send(res, 200, {
+          url: `http://localhost:${(server.address() as AddressInfo).port}/files/${String(body.name)}`,
+          file
+        });
+      }
+      if (rest[0] === 'confirm') {
+        return send(res, 200, { ...file, virtualPath: `/${String(body.key)}`, hash: null });
+      }
+    }
+
+    send(res, 404, undefined, `No fake for ${req.method} ${pathname}`);
+  }
+
+  const server = createServer((req, res) => {
+    route(req, res).catch((error: unknown) => send(res, 500, undefined, String(error)));
+  });
+  return server;
+};
@@ -0,0 +1,15 @@
+import { CreateFakeCoreApi } from './fake-core-api-server';
+
+/**
+ * Starts the fake core API (see `fake-core-api-server.ts`), to run the service offline without a backend.
+ *
+ * Usage: `npm run fake:core-api`, then start `npm run offline` with `AGENTICFLO_BASE_URL=http://localhost:6002`
+ * (and `AGENTICFLO_STREAMING=true` to stream replies). The port is read from `FAKE_CORE_API_PORT`.
+ */
+
+const port = Number(process.env.FAKE_CORE_API_PORT || 6002);
+const chunkDelayMs = Number(process.env.FAKE_CORE_API_CHUNK_DELAY_MS || 100);
+
+CreateFakeCoreApi(chunkDelayMs).listen(port, () => {
+  process.stdout.write(`Fake core API listening on http://localhost:${port}\n`);
+});
@@ -0,0 +1,64 @@
+import { config } from '../config';
+import { AuthorizationPolicies, CapabilityRule } from '../types/authorization-types';
+import { ShareableContext } from '../types/shareable-context';
+import logger from '../utils/logger';
+
+/** Key matching any shareable type or capability not listed explicitly */
+const WILDCARD = '*';
+
+/**
+ * Policies applied when `SHAREABLE_POLICIES` is not set: every capability is granted to every shareable
+ */
+export const ALLOW_ALL_POLICIES: AuthorizationPolicies = { [WILDCARD]: { [WILDCARD]: true } };
+
+/**
+ * Create the authorization policy deciding which capabilities a shareable grants
+ *
+ * Policies are looked up by shareable `type` (falling back to `*`), then by capability (falling back to `*`).
+ * Anything not matched by a rule is denied.
+ *
+ * @param policies - Capability policies keyed by shareable type
+ * @returns An object to check capabilities of shareables
+ *
+ * @example
+ * ```typescript
+ * const policy = CreateAuthorizationPolicy({
+ *   webchat: { 'chat:read': true, 'chat:write': true, 'upload:write': { channels: ['uploads'] } }
+ * });
+ * policy.isGranted({ token, type: 'webchat', id, channels: [] }, 'upload:write'); // => false
+ * ```
+ */
+export const CreateAuthorizationPolicy = (policies: AuthorizationPolicies) => ({
+  /**
+   * Checks whether a shareable grants a capability
+   *
+   * @param shareable - The authenticated shareable context
+   * @param capability - The capability required by the route
+   * @returns True if access is granted
+   */
+  isGranted: (shareable: ShareableContext, capability: string): boolean => {
+    const policy = policies[shareable.type] ?? policies[WILDCARD];
+    const rule: CapabilityRule | undefined = policy?.[capability] ?? policy?.[WILDCARD];
+
+    if (typeof rule === 'boolean' || rule === undefined) {
+      return !!rule;
+    }
+    return rule.channels.some((channel) => shareable.channels?.includes(channel));
+  }
+});
+
+/**
+ * Returns the configured policies (`SHAREABLE_POLICIES`), granting everything when none are configured
+ *
+ * @internal
+ */
+function getConfiguredPolicies(): AuthorizationPolicies {
+  if (!config.authorization.policies) {
+    logger.debug('SHAREABLE_POLICIES is not set, every capability is granted');
+    return ALLOW_ALL_POLICIES;
+  }
+  return config.authorization.policies;
+}
+
+export type AuthorizationPolicy = ReturnType<typeof CreateAuthorizationPolicy>;
+export const authorizationPolicy = CreateAuthorizationPolicy(getConfiguredPolicies());
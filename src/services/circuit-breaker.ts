@@ -0,0 +1,176 @@
+import { HttpStatusCode } from 'axios';
+import { config } from '../config';
+import { CIRCUIT_OPEN_CODE } from '../errors/error-codes';
+import { HttpCodedError } from '../errors/http-error';
+import { CircuitBreakerConfig } from '../types/config-types';
+import logger from '../utils/logger';
+
+/**
+ * State of a circuit breaker:
+ * - `closed`: requests go through, consecutive failures are counted
+ * - `open`: requests fail fast, until the reset timeout elapses
+ * - `half-open`: a single probe request goes through, closing the circuit on success or reopening it on failure
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * State of one circuit breaker, as exposed by the health endpoint
+ */
+export type CircuitSnapshot = {
+  route: string;
+  state: CircuitState;
+  failures: number; // Consecutive failures
+  retryAfterSeconds?: number; // While open, until the next probe is allowed
+};
+
+/**
+ * Create a circuit breaker guarding one backend route
+ *
+ * State transitions are evaluated lazily from `Date.now()` when the breaker is used: no timer runs,
+ * so the breaker works in-process and with fake timers.
+ *
+ * @param route - The backend route guarded, e.g. "GET /shareable"
+ * @param options - Failure threshold and reset timeout
+ * @returns An object to check, record and inspect the state of the route
+ *
+ * @example
+ * ```typescript
+ * const breaker = CreateCircuitBreaker('GET /shareable', { failureThreshold: 5, resetTimeoutSeconds: 30 });
+ * breaker.assertClosed(); // throws a 503 while open
+ * breaker.recordFailure();
+ * ```
+ */
+export const CreateCircuitBreaker = (route: string, options: CircuitBreakerConfig) => {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let probing = false;
+
+  const resetTimeoutMs = options.resetTimeoutSeconds * 1000;
+
+  const getState = (): CircuitState => {
+    if (openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - openedAt >= resetTimeoutMs ? 'half-open' : 'open';
+  };
+
+  const retryAfterSeconds = (): number =>
+    openedAt === null ? 0 : Math.max(1, Math.ceil((openedAt + resetTimeoutMs - Date.now()) / 1000));
+
+  const open = (): void => {
+    openedAt = Date.now();
+    probing = false;
+    logger.error(`Circuit breaker opened for ${route} after ${failures} consecutive failures`, undefined, {
+      route,
+      failures,
+      retryAfterSeconds: options.resetTimeoutSeconds
+    });
+  };
+
+  return {
+    route,
+
+    /**
+     * Lets a request through, or fails fast while the circuit is open
+     * In half-open state, only one probe request is let through at a time.
+     *
+     * @throws {HttpCodedError} 503 - While the circuit is open (`CIRCUIT_OPEN`, with `retryAfterSeconds`)
+     */
+    assertClosed: (): void => {
+      if (options.failureThreshold <= 0) {
+        return;
+      }
+
+      const state = getState();
+      if (state === 'closed') {
+        return;
+      }
+
+      if (state === 'half-open' && !probing) {
+        probing = true;
+        logger.info(`Circuit breaker half-open for ${route}, probing`, { route });
+        return;
+      }
+
+      throw new HttpCodedError(HttpStatusCode.ServiceUnavailable, 'Service temporarily unavailable', {
+        code: CIRCUIT_OPEN_CODE,
+        retryAfterSeconds: retryAfterSeconds()
+      });
+    },
+
+    /**
+     * Records a request answered by the backend, closing the circuit
+     */
+    recordSuccess: (): void => {
+      if (openedAt !== null) {
+        logger.info(`Circuit breaker closed for ${route}`, { route });
+      }
+      failures = 0;
+      openedAt = null;
+      probing = false;
+    },
+
+    /**
+     * Records a request the backend failed to answer, opening the circuit past the threshold
+     * A failed probe reopens the circuit right away.
+     */
+    recordFailure: (): void => {
+      failures++;
+      if (options.failureThreshold <= 0) {
+        return;
+      }
+      if (probing || (openedAt === null && failures >= options.failureThreshold)) {
+        open();
+      }
+    },
+
+    /**
+     * @returns The current state of the circuit
+     */
+    snapshot: (): CircuitSnapshot => {
+      const state = getState();
+      return {
+        route,
+        state,
+        failures,
+        ...(state === 'open' && { retryAfterSeconds: retryAfterSeconds() })
+      };
+    }
+  };
+};
+
+export type CircuitBreaker = ReturnType<typeof CreateCircuitBreaker>;
+
+/**
+ * Create the set of circuit breakers of a backend, one per route, created on first use
+ *
+ * @param options - Failure threshold and reset timeout shared by every route
+ * @returns An object to get the breaker of a route and inspect every breaker
+ */
+export const CreateCircuitBreakerRegistry = (options: CircuitBreakerConfig) => {
+  const breakers = new Map<string, CircuitBreaker>();
+
+  return {
+    /**
+     * Returns the circuit breaker of a route, creating it if needed
+     *
+     * @param route - The backend route, e.g. "POST /webchat/{sessionId}"
+     */
+    get: (route: string): CircuitBreaker => {
+      let breaker = breakers.get(route);
+      if (!breaker) {
+        breaker = CreateCircuitBreaker(route, options);
+        breakers.set(route, breaker);
+      }
+      return breaker;
+    },
+
+    /**
+     * @returns The state of every route used so far
+     */
+    snapshot: (): CircuitSnapshot[] => [...breakers.values()].map((breaker) => breaker.snapshot())
+  };
+};
+
+export type CircuitBreakerRegistry = ReturnType<typeof CreateCircuitBreakerRegistry>;
+export const circuitBreakers = CreateCircuitBreakerRegistry(config.circuitBreaker);
@@ -0,0 +1,60 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../config';
+import { ConfigurationCacheRecord } from '../types/configuration-cache-types';
+
+/**
+ * Create a DynamoDB-backed store for the shared tier of the configuration cache
+ *
+ * Lets every Lambda instance reuse the configurations looked up by the others. Records carry their
+ * own expiry: DynamoDB TTL deletes them eventually, expired records are ignored until then.
+ *
+ * @param docClient - The DynamoDB Document Client instance for database operations
+ * @param TableName - The configuration cache table name
+ * @returns An object with methods to read and write cache records in DynamoDB
+ */
+export const CreateDynamoDBConfigurationCacheStore = (docClient: DynamoDBDocumentClient, TableName: string) => ({
+  /**
+   * Get a cache record
+   *
+   * @param cacheKey - The cache key
+   * @returns Promise that resolves to the record, or null if absent or expired
+   */
+  get: async (cacheKey: string): Promise<ConfigurationCacheRecord | null> => {
+    const result = await docClient.send(new GetCommand({ TableName, Key: { cacheKey } }));
+    const record = result.Item as ConfigurationCacheRecord | undefined;
+    if (!record || record.ttl <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return record;
+  },
+
+  /**
+   * Save a cache record, replacing any record with the same key
+   *
+   * @param record - The cache record
+   * @returns Promise that resolves when the record is saved
+   */
+  put: async (record: ConfigurationCacheRecord): Promise<void> => {
+    await docClient.send(new PutCommand({ TableName, Item: record }));
+  },
+
+  /**
+   * Delete a cache record
+   *
+   * @param cacheKey - The cache key
+   * @returns Promise that resolves when the record is deleted
+   */
+  delete: async (cacheKey: string): Promise<void> => {
+    await docClient.send(new DeleteCommand({ TableName, Key: { cacheKey } }));
+  }
+});
+
+export type ConfigurationCacheStore = ReturnType<typeof CreateDynamoDBConfigurationCacheStore>;
+const client = new DynamoDBClient({});
+
+// Offline, the per-instance cache is all there is: a single process serves every request
+export const configurationCacheStore: ConfigurationCacheStore | null =
+  config.configurationCache.shared && !config.isOffline
+    ? CreateDynamoDBConfigurationCacheStore(DynamoDBDocumentClient.from(client), config.configurationCache.table)
+    : null;
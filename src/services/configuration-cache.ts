@@ -0,0 +1,243 @@
+import { HttpStatusCode } from 'axios';
+import { createHash } from 'node:crypto';
+import { config } from '../config';
+import { HttpCodedError } from '../errors/http-error';
+import { ConfigurationCacheRecord } from '../types/configuration-cache-types';
+import { ConfigurationCacheConfig } from '../types/config-types';
+import { ShareableContext } from '../types/shareable-context';
+import { getErrorMessage } from '../utils/lib';
+import { CreateLruCache } from '../utils/lru-cache';
+import logger from '../utils/logger';
+import { configurationCacheStore, ConfigurationCacheStore } from './configuration-cache-store';
+import { revocationStore, RevocationStore } from './revocation-store';
+
+/**
+ * Looks up the configuration of a shareable token with the backend
+ */
+export type ConfigurationLoader = (shareableToken: string) => Promise<ShareableContext | undefined>;
+
+/**
+ * Tokens are hashed, so they never appear as cache keys
+ */
+const tokenCacheKey = (shareableToken: string): string =>
+  `token:${createHash('sha256').update(shareableToken).digest('base64url')}`;
+
+const invalidationCacheKey = (type: string, id: string): string => `shareable:${type}:${id}`;
+
+const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Invalid tokens are reported by the backend as 401/403/404, mapped to 400 by the HTTP client
+ */
+const isInvalidTokenError = (error: unknown): error is HttpCodedError =>
+  error instanceof HttpCodedError && error.statusCode === 400;
+
+/**
+ * Create the cache of shareable configurations
+ *
+ * Sits in front of `coreApi.getConfiguration`, called by every `resource/get`, `auth/refresh` and WebSocket
+ * authentication:
+ * - A per-instance LRU answers repeated lookups of the same token
+ * - With a shared store, instances also reuse each other's lookups
+ * - Invalid tokens are cached for a shorter time (negative caching), and their error replayed
+ * - Concurrent lookups of the same token share a single backend request
+ *
+ * Backend failures are never cached, and an unavailable shared store only disables the shared tier.
+ * When a shareable changes, `invalidateShareable` drops its configuration from this instance and the shared
+ * store: other instances may serve their own copy until it expires (`ttlSeconds`). Cached lookups of a shareable
+ * revoked since (see `revocationStore.revokeShareable`) are never served though, so that no instance issues new
+ * tokens from a configuration that predates the revocation.
+ *
+ * @param sharedStore - Store shared by every instance, or null to only cache per instance
+ * @param revocations - Revocation store, checked before serving a cached lookup
+ * @param options - Cache settings (`config.configurationCache`)
+ * @returns An object to look up configurations through the cache and invalidate them
+ *
+ * @example
+ * ```typescript
+ * const shareable = await configurationCache.get(token, (token) => fetchConfiguration(token));
+ * await configurationCache.invalidateShareable('webchat', 'abc123');
+ * ```
+ */
+export const CreateConfigurationCache = (
+  sharedStore: ConfigurationCacheStore | null,
+  revocations: RevocationStore,
+  options: ConfigurationCacheConfig
+) => {
+  const local = CreateLruCache<ConfigurationCacheRecord>(options.maxEntries);
+  const pending = new Map<string, Promise<ConfigurationCacheRecord>>();
+
+  const isFresh = (record: ConfigurationCacheRecord): boolean => record.ttl > nowInSeconds();
+
+  const toResult = (record: ConfigurationCacheRecord): ShareableContext | undefined => {
+    if (record.errorMessage) {
+      throw new HttpCodedError(HttpStatusCode.BadRequest, record.errorMessage);
+    }
+    return record.shareableContext;
+  };
+
+  /**
+   * Tells whether a lookup was cached before its shareable was revoked (during the same second included, as tokens)
+   */
+  const isRevokedSince = async (record: ConfigurationCacheRecord): Promise<boolean> => {
+    if (!record.shareableContext) {
+      return false;
+    }
+    const revokedAt = await revocations.shareableRevokedAt(record.shareableContext.type, record.shareableContext.id);
+    return revokedAt !== undefined && record.cachedAt <= revokedAt;
+  };
+
+  /**
+   * Reads a lookup from the shared store, unless its shareable was invalidated since
+   */
+  const readShared = async (cacheKey: string): Promise<ConfigurationCacheRecord | null> => {
+    if (!sharedStore) {
+      return null;
+    }
+    try {
+      const record = await sharedStore.get(cacheKey);
+      if (!record?.shareableContext) {
+        return record;
+      }
+      const { type, id } = record.shareableContext;
+      const invalidation = await sharedStore.get(invalidationCacheKey(type, id));
+      return invalidation && record.cachedAt <= invalidation.cachedAt ? null : record;
+    } catch (error) {
+      logger.warn('Shared configuration cache unavailable, reading from the backend', {
+        error: getErrorMessage(error)
+      });
+      return null;
+    }
+  };
+
+  const writeShared = async (record: ConfigurationCacheRecord): Promise<void> => {
+    if (!sharedStore || record.ttl <= record.cachedAt) {
+      return;
+    }
+    try {
+      await sharedStore.put(record);
+    } catch (error) {
+      logger.warn('Could not write to the shared configuration cache', { error: getErrorMessage(error) });
+    }
+  };
+
+  const lookup = async (
+    cacheKey: string,
+    shareableToken: string,
+    loader: ConfigurationLoader
+  ): Promise<ConfigurationCacheRecord> => {
+    const shared = await readShared(cacheKey);
+    if (shared && !(await isRevokedSince(shared))) {
+      return shared;
+    }
+
+    let record: ConfigurationCacheRecord;
+    try {
+      const shareableContext = await loader(shareableToken);
+      const now = nowInSeconds();
+      const ttlSeconds = shareableContext ? options.ttlSeconds : options.negativeTtlSeconds;
+      record = { cacheKey, shareableContext, cachedAt: now, ttl: now + ttlSeconds };
+    } catch (error) {
+      if (!isInvalidTokenError(error)) {
+        throw error;
+      }
+      const now = nowInSeconds();
+      record = { cacheKey, errorMessage: error.message, cachedAt: now, ttl: now + options.negativeTtlSeconds };
+    }
+
+    await writeShared(record);
+    return record;
+  };
+
+  return {
+    /**
+     * Looks up the configuration of a shareable token, from the cache or with the loader
+     *
+     * @param shareableToken - The shareable token
+     * @param loader - Looks up the configuration with the backend on cache misses
+     * @returns Promise resolving to the ShareableContext, or undefined if not found
+     * @throws {HttpCodedError} 400 - If the backend rejected the token (replayed while cached)
+     * @throws Error if the loader fails for any other reason (never cached)
+     */
+    get: async (shareableToken: string, loader: ConfigurationLoader): Promise<ShareableContext | undefined> => {
+      if (options.ttlSeconds <= 0) {
+        return loader(shareableToken);
+      }
+
+      const cacheKey = tokenCacheKey(shareableToken);
+      const cached = local.get(cacheKey);
+      if (cached && isFresh(cached)) {
+        if (!(await isRevokedSince(cached))) {
+          return toResult(cached);
+        }
+        local.delete(cacheKey);
+      }
+
+      let request = pending.get(cacheKey);
+      if (!request) {
+        request = lookup(cacheKey, shareableToken, loader)
+          .then((record) => {
+            if (isFresh(record)) {
+              local.set(cacheKey, record);
+            } else {
+              local.delete(cacheKey);
+            }
+            return record;
+          })
+          .finally(() => {
+            // Unless invalidated meanwhile, and replaced by a newer lookup
+            if (pending.get(cacheKey) === request) {
+              pending.delete(cacheKey);
+            }
+          });
+        pending.set(cacheKey, request);
+      }
+      return toResult(await request);
+    },
+
+    /**
+     * Drops the cached configuration of a shareable token
+     *
+     * @param shareableToken - The shareable token
+     * @returns Promise that resolves once the token is removed from both tiers
+     */
+    invalidateToken: async (shareableToken: string): Promise<void> => {
+      const cacheKey = tokenCacheKey(shareableToken);
+      local.delete(cacheKey);
+      pending.delete(cacheKey);
+      await sharedStore?.delete(cacheKey);
+    },
+
+    /**
+     * Drops the cached configurations of a shareable, whatever the token they were looked up with
+     *
+     * Lookups cached in the shared store cannot be listed by shareable: an invalidation record is saved
+     * instead, making older lookups of the shareable stale.
+     *
+     * @param type - The shareable resource type
+     * @param id - The shareable resource ID
+     * @returns Promise that resolves to the number of lookups dropped from this instance
+     */
+    invalidateShareable: async (type: string, id: string): Promise<number> => {
+      const dropped = local.deleteWhere(
+        ({ shareableContext }) => shareableContext?.type === type && shareableContext.id === id
+      );
+      if (sharedStore) {
+        const now = nowInSeconds();
+        await sharedStore.put({
+          cacheKey: invalidationCacheKey(type, id),
+          cachedAt: now,
+          ttl: now + options.ttlSeconds
+        });
+      }
+      return dropped;
+    }
+  };
+};
+
+export type ConfigurationCache = ReturnType<typeof CreateConfigurationCache>;
+export const configurationCache = CreateConfigurationCache(
+  configurationCacheStore,
+  revocationStore,
+  config.configurationCache
+);
@@ -0,0 +1,82 @@
+import { HttpStatusCode } from 'axios';
+import { HttpCodedError } from '../errors/http-error';
+import { AuthenticateRequest } from '../types/request-types';
+import { ShareableContext, TransientTokenClaims } from '../types/shareable-context';
+import { enforceOriginPolicy } from '../utils/origin';
+import { coreApi, CoreApiService } from './core-api';
+import { tokenService, TransientTokenService } from './transient-token';
+
+/**
+ * Credentials a WebSocket connection can authenticate with: the shareable token, or a transient JWT
+ */
+export type ConnectionCredentials = Pick<AuthenticateRequest, 'token' | 'authToken'>;
+
+/**
+ * Outcome of a successful connection authentication
+ */
+export type ConnectionAuthentication = {
+  shareableContext: ShareableContext;
+  expiresAt?: number; // Expiry (seconds) of the transient JWT, when authenticated with one
+  claims?: TransientTokenClaims; // Claims of that JWT, stored with the connection (see `saveConnection`)
+};
+
+/**
+ * Create the service authenticating WebSocket connections
+ *
+ * Shared by the `authenticate` command and the `$connect` handler, so both accept the same credentials:
+ * - `token`: the shareable token, validated with the backend (just like HTTP /resource/get)
+ * - `authToken`: a transient JWT from `resource/get` or `auth/refresh`, verified locally. Takes precedence
+ *
+ * The origin allowlist of the shareable is enforced against the origin of the `$connect` handshake.
+ *
+ * @param coreApiService - Core API client validating shareable tokens
+ * @param transientTokenService - Service verifying transient JWTs
+ * @returns An object to authenticate connection credentials
+ *
+ * @example
+ * ```typescript
+ * const { shareableContext, claims } = await connectionAuthenticator.authenticate({ authToken });
+ * await connectionManager.saveConnection(connectionId, shareableContext, sessionId, claims);
+ * ```
+ */
+export const CreateConnectionAuthenticator = (
+  coreApiService: CoreApiService,
+  transientTokenService: TransientTokenService
+) => ({
+  /**
+   * Authenticates connection credentials
+   *
+   * @param credentials - The shareable token or the transient JWT
+   * @returns The authenticated ShareableContext, with the JWT expiry when authenticated with `authToken`
+   * @throws {HttpCodedError} 400 - If both token and authToken are missing
+   * @throws {HttpCodedError} 400 - If token is invalid or expired
+   * @throws {HttpCodedError} 401 - If authToken is invalid, revoked or expired
+   * @throws {HttpCodedError} 403 - If the shareable does not allow the origin of the connection (`ORIGIN_NOT_ALLOWED`)
+   */
+  authenticate: async ({ token, authToken }: ConnectionCredentials): Promise<ConnectionAuthentication> => {
+    if (authToken) {
+      const claims = await transientTokenService.verify(authToken);
+      if (!claims) {
+        throw new HttpCodedError(HttpStatusCode.Unauthorized, 'Invalid or expired token');
+      }
+      enforceOriginPolicy(claims);
+      return { shareableContext: transientTokenService.toShareableContext(claims), expiresAt: claims.exp, claims };
+    }
+
+    if (!token) {
+      throw new HttpCodedError(HttpStatusCode.BadRequest, 'Token is required');
+    }
+
+    // Fetch and validate the resource configuration from backend
+    // This is the same logic as HTTP /resource/get
+    const shareableContext = await coreApiService.getConfiguration(token);
+    if (!shareableContext) {
+      throw new HttpCodedError(HttpStatusCode.BadRequest, 'Invalid or expired resource');
+    }
+    enforceOriginPolicy(shareableContext);
+    return { shareableContext };
+  }
+});
+
+export type ConnectionAuthenticator = ReturnType<typeof CreateConnectionAuthenticator>;
+export const connectionAuthenticator = CreateConnectionAuthenticator(coreApi, tokenService);
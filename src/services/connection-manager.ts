@@ -1,20 +1,26 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, PutCommand, GetCommand, DeleteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../config';
 import { ConnectionRecord } from '../types/websocket-types';
-import { ShareableContext } from '../types/shareable-context';
+import { ShareableContext, TransientTokenClaims } from '../types/shareable-context';
 import { CreateInMemoryConnectionManager } from './memory-connection-manager';
-import { isTrue } from '../utils/lib';
 
 /**
  * Create a DynamoDB-backed connection manager for production use
  *
  * This factory function creates a connection manager that persists WebSocket connection
- * data in DynamoDB. Connections are stored with TTL for automatic cleanup after 24 hours.
+ * data in DynamoDB. Connections are stored with TTL for automatic cleanup (after 24 hours by default).
  *
  * @param docClient - The DynamoDB Document Client instance for database operations
+ * @param TableName - The connections table
+ * @param connectionTtlSeconds - Lifetime of connection records (`WS_CONNECTIONS_TTL`)
  * @returns An object with methods to manage WebSocket connections in DynamoDB
  */
-export const CreateDynamoDBConnectionManager = (docClient: DynamoDBDocumentClient, TableName: string) => ({
+export const CreateDynamoDBConnectionManager = (
+  docClient: DynamoDBDocumentClient,
+  TableName: string,
+  connectionTtlSeconds: number
+) => ({
   /**
    * Initialize the connection manager
    * No-op for DynamoDB implementation as it requires no initialization
@@ -35,21 +41,30 @@ export const CreateDynamoDBConnectionManager = (docClient: DynamoDBDocumentClien
    * @param connectionId - The unique WebSocket connection ID
    * @param shareableContext - Optional context containing resource type, ID, and channels
    * @param sessionId - Optional session identifier for tracking user sessions
+   * @param authClaims - Optional claims of the transient JWT the connection authenticated with: expiry and revocation
+   * @param origin - Optional `Origin` of the `$connect` handshake, checked against shareable allowlists
    * @returns Promise that resolves when the connection is saved
    */
   saveConnection: async (
     connectionId: string,
     shareableContext?: ShareableContext,
-    sessionId?: string
+    sessionId?: string,
+    authClaims?: TransientTokenClaims,
+    origin?: string
   ): Promise<void> => {
     const now = Math.floor(Date.now() / 1000);
-    const ttl = now + Number(process.env.WS_CONNECTIONS_TTL || '24') * 60 * 60;
+    const ttl = now + connectionTtlSeconds;
 
     const record: ConnectionRecord = {
       connectionId,
       authenticated: !!shareableContext, // Authenticated only if context provided
       shareableContext,
       sessionId,
+      // Kept to refuse commands once the JWT expires or is revoked
+      authExpiresAt: authClaims?.exp,
+      authIssuedAt: authClaims?.iat,
+      authJti: authClaims?.jti,
+      origin,
       connectedAt: now,
       ttl
     };
@@ -149,15 +164,48 @@ export const CreateDynamoDBConnectionManager = (docClient: DynamoDBDocumentClien
     );
 
     return (result.Items as ConnectionRecord[]) || [];
+  },
+
+  /**
+   * Get connections that have not authenticated since a given time
+   * Used by the connection sweeper to close connections past their authentication deadline
+   *
+   * Note: This uses a Scan operation which may be slower for large datasets. Every page is read, as a
+   * single Scan call stops at 1 MB of items, before the filter is applied.
+   *
+   * @param connectedBefore - Timestamp (seconds): only connections opened before it are returned
+   * @returns Promise that resolves to an array of unauthenticated connection records
+   */
+  getUnauthenticatedConnections: async (connectedBefore: number): Promise<ConnectionRecord[]> => {
+    const connections: ConnectionRecord[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await docClient.send(
+        new ScanCommand({
+          TableName,
+          FilterExpression: 'authenticated = :false AND connectedAt < :connectedBefore',
+          ExpressionAttributeValues: {
+            ':false': false,
+            ':connectedBefore': connectedBefore
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        })
+      );
+      connections.push(...((result.Items as ConnectionRecord[]) || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return connections;
   }
 });
 
 export type ConnectionManager = ReturnType<typeof CreateDynamoDBConnectionManager>;
 const client = new DynamoDBClient({});
-const TableName = process.env.WS_CONNECTIONS_TABLE || 'shareable-api-connections';
 
-export const instance = isTrue(process.env.IS_OFFLINE)
-  ? CreateInMemoryConnectionManager(new Map<string, ConnectionRecord>())
-  : CreateDynamoDBConnectionManager(DynamoDBDocumentClient.from(client), TableName);
+const { connectionsTable, connectionsTtlSeconds } = config.websocket;
+
+export const instance = config.isOffline
+  ? CreateInMemoryConnectionManager(new Map<string, ConnectionRecord>(), connectionsTtlSeconds)
+  : CreateDynamoDBConnectionManager(DynamoDBDocumentClient.from(client), connectionsTable, connectionsTtlSeconds);
 instance.init();
 export const connectionManager = instance;
@@ -0,0 +1,136 @@
+import { HttpStatusCode } from 'axios';
+import { config } from '../config';
+import { HttpCodedError } from '../errors/http-error';
+import { wsFailure } from '../utils/response';
+import logger from '../utils/logger';
+import { connectionManager, ConnectionManager } from './connection-manager';
+import { websocketClient, WebSocketClient } from './websocket-client';
+
+/**
+ * Create the sweeper closing WebSocket connections that never authenticate
+ *
+ * Connections accepted unauthenticated by `$connect` must complete the `authenticate` command within the
+ * authentication deadline. Past it, they receive a failure frame (`AUTH_TIMEOUT`), are disconnected and
+ * their records are removed, so they stop counting in channel scans.
+ *
+ * In AWS the sweep runs from the scheduled `connectionSweeper` function (`src/connection-sweeper.ts`).
+ * serverless-offline does not run scheduled functions: offline, `init` sweeps on an interval instead.
+ *
+ * @param connectionManager - Connection store to look up and remove connections
+ * @param websocketClient - Client to notify and disconnect connections
+ * @param authDeadlineSeconds - Seconds a connection has to authenticate. 0 disables the sweeper
+ * @param endpoint - The WebSocket API management endpoint (`WEBSOCKET_API_ENDPOINT`)
+ * @returns An object to sweep connections past their authentication deadline
+ *
+ * @example
+ * ```typescript
+ * const sweeper = CreateConnectionSweeper(connectionManager, websocketClient, 30, config.websocket.apiEndpoint);
+ * await sweeper.sweep(); // => 2 (connections closed)
+ * ```
+ */
+export const CreateConnectionSweeper = (
+  connectionManager: ConnectionManager,
+  websocketClient: WebSocketClient,
+  authDeadlineSeconds: number,
+  endpoint: string | undefined
+) => {
+  let sweepIntervalId: NodeJS.Timeout | null = null;
+
+  /**
+   * Closes one connection past its authentication deadline
+   *
+   * @returns True if the connection was closed, false if it authenticated or disconnected meanwhile
+   */
+  const closeConnection = async (apiEndpoint: string, connectionId: string): Promise<boolean> => {
+    // The connection may have authenticated since it was listed
+    const connection = await connectionManager.getConnection(connectionId);
+    if (!connection || connection.authenticated) {
+      return false;
+    }
+
+    const error = new HttpCodedError(HttpStatusCode.Unauthorized, 'Authentication deadline exceeded', {
+      code: 'AUTH_TIMEOUT'
+    });
+    const sent = await websocketClient.sendToConnection(
+      apiEndpoint,
+      connectionId,
+      'authenticate',
+      wsFailure(error.message, error.statusCode, error)
+    );
+    // Stale connections are already gone, only their record remains
+    if (sent) {
+      await websocketClient.disconnect(apiEndpoint, connectionId);
+    }
+    await connectionManager.deleteConnection(connectionId);
+    return true;
+  };
+
+  const sweep = async (): Promise<number> => {
+    if (authDeadlineSeconds <= 0) {
+      return 0;
+    }
+
+    if (!endpoint) {
+      logger.error('Cannot sweep unauthenticated connections: no WebSocket endpoint');
+      return 0;
+    }
+
+    const connectedBefore = Math.floor(Date.now() / 1000) - authDeadlineSeconds;
+    const connections = await connectionManager.getUnauthenticatedConnections(connectedBefore);
+
+    const results = await Promise.allSettled(
+      connections.map(({ connectionId }) => closeConnection(endpoint, connectionId))
+    );
+    const closed = results.filter((outcome) => outcome.status === 'fulfilled' && outcome.value).length;
+    const failed = results.filter((outcome) => outcome.status === 'rejected').length;
+
+    if (closed || failed) {
+      logger.info(`Closed ${closed} unauthenticated connections past the deadline, ${failed} failed`);
+    }
+    return closed;
+  };
+
+  return {
+    /**
+     * Starts sweeping on an interval, for offline mode where scheduled functions do not run
+     */
+    init: () => {
+      if (sweepIntervalId !== null || authDeadlineSeconds <= 0) {
+        return;
+      }
+
+      logger.info(`[OFFLINE MODE] Sweeping connections not authenticated within ${authDeadlineSeconds}s`);
+      sweepIntervalId = setInterval(() => {
+        sweep().catch((error) => logger.error('[OFFLINE MODE] Connection sweep failed:', error));
+      }, 10000);
+    },
+
+    /**
+     * Stops the offline sweeping interval
+     */
+    destroy: () => {
+      if (sweepIntervalId !== null) {
+        clearInterval(sweepIntervalId);
+        sweepIntervalId = null;
+      }
+    },
+
+    /**
+     * Closes the connections that did not authenticate within the deadline
+     *
+     * Each connection gets a failure frame (`authenticate` command, 401 `AUTH_TIMEOUT`), is disconnected
+     * and its record removed. Failures are logged and retried on the next sweep.
+     *
+     * @returns The number of connections closed
+     */
+    sweep
+  };
+};
+
+export type ConnectionSweeper = ReturnType<typeof CreateConnectionSweeper>;
+export const connectionSweeper = CreateConnectionSweeper(
+  connectionManager,
+  websocketClient,
+  config.websocket.authDeadlineSeconds,
+  config.websocket.apiEndpoint
+);
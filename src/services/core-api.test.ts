@@ -0,0 +1,94 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CreateFakeCoreApi } from '../scripts/fake-core-api-server';
+import type { CoreApiService } from './core-api';
+
+const SHAREABLE_TOKEN = 'shareable-token';
+
+describe('streamWebchatMessage', () => {
+  let server: Server;
+  let coreApi: CoreApiService;
+
+  beforeAll(async () => {
+    server = CreateFakeCoreApi(5);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    // Services read their environment at import time
+    process.env.IS_OFFLINE = 'true';
+    process.env.CLIENT_AUTH_SECRET = 'test-secret';
+    const { CreateCoreApiService } = await import('./core-api');
+    const { createHttpClient } = await import('./http-client');
+    const { configurationCache } = await import('./configuration-cache');
+
+    const client = createHttpClient({
+      baseURL: `http://localhost:${(server.address() as AddressInfo).port}`,
+      authToken: 'backplane-token'
+    });
+    coreApi = CreateCoreApiService(() => client, configurationCache, { streamIdleTimeoutMs: 200 });
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('relays each chunk, then resolves with the complete reply', async () => {
+    const deltas: string[] = [];
+    const message = await coreApi.streamWebchatMessage('delta', { message: 'hello' }, SHAREABLE_TOKEN, (delta) => {
+      deltas.push(delta);
+      return Promise.resolve(true);
+    });
+
+    expect(deltas.join('')).toBe('You said: hello');
+    expect(message).toMatchObject({ role: 'assistant', content: 'You said: hello' });
+  });
+
+  it('fails with the code of an error event', async () => {
+    const reply = coreApi.streamWebchatMessage('error', { message: 'a b c [error]' }, SHAREABLE_TOKEN, () =>
+      Promise.resolve(true)
+    );
+
+    await expect(reply).rejects.toMatchObject({
+      statusCode: 502,
+      details: { code: 'AGENT_ERROR', backendMessage: 'The agent failed to answer' }
+    });
+  });
+
+  it('fails when the stream is cut without a final event', async () => {
+    const reply = coreApi.streamWebchatMessage('drop', { message: 'a b c [drop]' }, SHAREABLE_TOKEN, () =>
+      Promise.resolve(true)
+    );
+
+    await expect(reply).rejects.toMatchObject({ statusCode: 502, details: { code: 'STREAM_FAILED' } });
+  });
+
+  it('fails when the stream stalls', async () => {
+    const reply = coreApi.streamWebchatMessage('stall', { message: 'a b c [stall]' }, SHAREABLE_TOKEN, () =>
+      Promise.resolve(true)
+    );
+
+    await expect(reply).rejects.toMatchObject({ statusCode: 504, details: { code: 'STREAM_FAILED' } });
+  });
+
+  it('fails when the reply is cancelled', async () => {
+    let cancelled = false;
+    const reply = coreApi.streamWebchatMessage('cancel', { message: 'a b c d e' }, SHAREABLE_TOKEN, async () => {
+      if (!cancelled) {
+        cancelled = true;
+        await coreApi.cancelWebchatMessage('cancel', SHAREABLE_TOKEN);
+      }
+      return true;
+    });
+
+    await expect(reply).rejects.toMatchObject({ statusCode: 409, details: { code: 'STREAM_CANCELLED' } });
+  });
+
+  it('stops reading when the consumer is gone', async () => {
+    const reply = coreApi.streamWebchatMessage('abort', { message: 'a b c' }, SHAREABLE_TOKEN, () =>
+      Promise.resolve(false)
+    );
+
+    await expect(reply).rejects.toMatchObject({ statusCode: 410, details: { code: 'STREAM_ABORTED' } });
+  });
+});
@@ -1,6 +1,17 @@
-import { AxiosInstance } from 'axios';
+import { AxiosInstance, HttpStatusCode } from 'axios';
+import { Readable } from 'node:stream';
+import { config } from '../config';
+import { STREAM_ABORTED_CODE, STREAM_CANCELLED_CODE, STREAM_FAILED_CODE } from '../errors/error-codes';
+import { HttpCodedError } from '../errors/http-error';
+import { CORRELATION_ID_HEADER, getCorrelationId } from '../utils/correlation';
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/idempotency';
+import { getErrorMessage } from '../utils/lib';
 import logger from '../utils/logger';
+import { readNdjson } from '../utils/ndjson';
+import { DEFAULT_RETRY_POLICY, NO_RETRY_POLICY, RetryPolicy } from '../utils/retry-policy';
+import { configurationCache, ConfigurationCache } from './configuration-cache';
 import { getHttpClient } from './http-client';
+import { CoreApiConfig } from '../types/config-types';
 import { ShareableContext } from '../types/shareable-context';
 import {
   APIResponseType,
@@ -9,38 +20,120 @@ import {
   FileCreateDTO,
   FileDTO,
   SignedUrl,
-  WebChatHistory
+  WebChatConversation,
+  WebChatFeedback,
+  WebChatFeedbackDTO,
+  WebChatHistory,
+  WebChatHistoryQuery,
+  WebChatStreamEvent
 } from '../types/agentifclo-types';
+import { WebchatHistoryPage, WebchatInitialization } from '../types/response-types';
+
+/**
+ * Route and retry policy of each core API call.
+ * Reads are retried on network errors, throttling and unavailability. Writes are only retried when the
+ * request carries an idempotency key, and not as long, since the backend may have processed them already.
+ */
+const CORE_API_CALLS = {
+  getConfiguration: { route: 'GET /shareable', retryPolicy: DEFAULT_RETRY_POLICY },
+  sendWebchatMessage: {
+    route: 'POST /webchat/{sessionId}',
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, methods: ['POST'], maxAttempts: 2, budgetMs: 30000 }
+  },
+  // Never retried: chunks of the reply may already have been relayed to the client
+  streamWebchatMessage: { route: 'POST /webchat/{sessionId}/stream', retryPolicy: NO_RETRY_POLICY },
+  cancelWebchatMessage: { route: 'DELETE /webchat/{sessionId}/stream', retryPolicy: DEFAULT_RETRY_POLICY },
+  getWebchatHistory: { route: 'GET /webchat/history/{sessionId}', retryPolicy: DEFAULT_RETRY_POLICY },
+  getWebchatSession: { route: 'GET /webchat/history/{sessionId}', retryPolicy: DEFAULT_RETRY_POLICY },
+  finishWebchatConversation: {
+    route: 'POST /webchat/{sessionId}/finish',
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, methods: ['POST'], maxAttempts: 2 }
+  },
+  reopenWebchatConversation: {
+    route: 'POST /webchat/{sessionId}/reopen',
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, methods: ['POST'], maxAttempts: 2 }
+  },
+  sendWebchatFeedback: {
+    route: 'POST /webchat/{sessionId}/feedback',
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, methods: ['POST'], maxAttempts: 2 }
+  },
+  // Never retried: the route is not idempotent (no Idempotency-Key), and a new link is cheap to ask for
+  getPresignedUploadUrl: { route: 'POST /upload/get-link', retryPolicy: NO_RETRY_POLICY },
+  confirmFileUpload: {
+    route: 'POST /upload/confirm',
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, methods: ['POST'], maxAttempts: 2 }
+  }
+} satisfies Record<string, { route: string; retryPolicy: RetryPolicy }>;
+
+/**
+ * Builds the headers sent with every core API request: the shareable token, plus the
+ * correlation ID of the current invocation so both services' logs can be joined.
+ *
+ * @param shareableToken - Token used to authenticate the request
+ * @param idempotencyKey - Optional client idempotency key, forwarded so POST requests can be retried
+ * @returns Request headers
+ */
+const buildHeaders = (shareableToken: string, idempotencyKey?: string): Record<string, string> => {
+  const correlationId = getCorrelationId();
+  return {
+    'x-shareable-token': shareableToken,
+    ...(correlationId && { [CORRELATION_ID_HEADER]: correlationId }),
+    ...(idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey })
+  };
+};
+
+/**
+ * Extracts the page of messages from a backend history response.
+ * A page without a cursor cannot be followed: it is the last one.
+ *
+ * @param sessionId - Unique identifier for the webchat session
+ * @param history - The backend history response, undefined if no history exists
+ * @returns The page of messages, with the cursor of the next one
+ */
+const toHistoryPage = (sessionId: string, history: WebChatHistory | undefined): WebchatHistoryPage => {
+  const nextCursor = (history?.hasMore && history.nextCursor) || null;
+  return { sessionId, messages: history?.messages || [], hasMore: nextCursor !== null, nextCursor };
+};
 
 /**
  * Creates a Core API service instance with methods for interacting with the backend API.
  *
  * This service handles all core API operations including:
- * - Configuration retrieval
- * - Webchat messaging and history
+ * - Configuration retrieval (cached, see `configurationCache`)
+ * - Webchat messaging, history and conversation lifecycle (finish, reopen, feedback)
  * - File upload workflows
  *
- * @param client - Axios instance used for making HTTP requests
+ * @param getClient - Returns the Axios instance used for making HTTP requests, called on each request so the
+ *   client is only created, and its configuration checked, once a request is made
+ * @param configurationCache - Cache of shareable configurations
+ * @param options - Longest wait between two events of a streamed reply (`AGENTICFLO_STREAM_IDLE_TIMEOUT`)
  * @returns Object containing API service methods
  */
-export const CreateCoreApiService = (client: AxiosInstance) => ({
+export const CreateCoreApiService = (
+  getClient: () => AxiosInstance,
+  configurationCache: ConfigurationCache,
+  options: Pick<CoreApiConfig, 'streamIdleTimeoutMs'>
+) => ({
   /**
    * Retrieves the shareable configuration context using a shareable token.
+   * Answered from the configuration cache when possible.
    *
    * @param shareableToken - Token used to authenticate and identify the shareable resource
    * @returns Promise resolving to the ShareableContext, or undefined if not found
    * @throws Error if the API request fails or returns an unsuccessful response
    */
-  getConfiguration: async (shareableToken: string): Promise<ShareableContext | undefined> => {
-    const headers = {
-      'x-shareable-token': shareableToken
-    };
-    const response = await client.get<APIResponseType<ShareableContext>>(`/shareable`, { headers });
-    if (!response.data.success) {
-      throw new Error(`Failed to fetch resource: ${response.data.message}`);
-    }
-    return response.data.result;
-  },
+  getConfiguration: (shareableToken: string): Promise<ShareableContext | undefined> =>
+    configurationCache.get(shareableToken, async (shareableToken) => {
+      const headers = buildHeaders(shareableToken);
+      const response = await getClient().get<APIResponseType<ShareableContext>>(`/shareable`, {
+        headers,
+        ...CORE_API_CALLS.getConfiguration
+      });
+      if (!response.data.success) {
+        throw new Error(`Failed to fetch resource: ${response.data.message}`);
+      }
+      return response.data.result;
+    }),
 
   /**
    * Sends a message to the webchat session.
@@ -48,18 +141,21 @@ export const CreateCoreApiService = (client: AxiosInstance) => ({
    * @param sessionId - Unique identifier for the webchat session
    * @param payload - Message payload containing the message text and optional additional data
    * @param shareableToken - Token used to authenticate the request
+   * @param idempotencyKey - Optional client idempotency key, also allowing the request to be retried
    * @returns Promise resolving to the created ChatMessage, or undefined if creation failed
    * @throws Error if the API request fails or returns an unsuccessful response
    */
   sendWebchatMessage: async (
     sessionId: string,
     payload: { message: string; [key: string]: unknown },
-    shareableToken: string
+    shareableToken: string,
+    idempotencyKey?: string
   ): Promise<ChatMessage | undefined> => {
-    const headers = {
-      'x-shareable-token': shareableToken
-    };
-    const response = await client.post<APIResponseType<ChatMessage>>(`/webchat/${sessionId}`, payload, { headers });
+    const headers = buildHeaders(shareableToken, idempotencyKey);
+    const response = await getClient().post<APIResponseType<ChatMessage>>(`/webchat/${sessionId}`, payload, {
+      headers,
+      ...CORE_API_CALLS.sendWebchatMessage
+    });
     if (!response.data.success) {
       throw new Error(`Failed to send webchat message: ${response.data.message}`);
     }
@@ -67,23 +163,265 @@ export const CreateCoreApiService = (client: AxiosInstance) => ({
   },
 
   /**
-   * Retrieves the complete message history for a webchat session.
+   * Sends a message to the webchat session, and relays the reply as it is generated.
+   *
+   * The backend answers with an NDJSON stream of `WebChatStreamEvent`: chunks of the reply, then the
+   * complete message. Each chunk is passed to `onDelta` before the next one is read. The request is aborted when
+   * the backend sends no event for `streamIdleTimeoutMs`, as a stalled stream would otherwise hang until the
+   * function times out.
    *
    * @param sessionId - Unique identifier for the webchat session
+   * @param payload - Message payload containing the message text and optional additional data
    * @param shareableToken - Token used to authenticate the request
-   * @returns Promise resolving to an array of ChatMessages (empty array if no history exists)
-   * @throws Error if the API request fails or returns an unsuccessful response
+   * @param onDelta - Called with each chunk of the reply. Resolving to false stops the stream (e.g. client gone)
+   * @param idempotencyKey - Optional client idempotency key
+   * @returns Promise resolving to the complete ChatMessage
+   * @throws {HttpCodedError} 409 - With code `STREAM_CANCELLED`, if the reply was cancelled (see `cancelWebchatMessage`)
+   * @throws {HttpCodedError} 410 - With code `STREAM_ABORTED`, if `onDelta` stopped the stream
+   * @throws {HttpCodedError} 502 - With code `STREAM_FAILED` (or the backend's), if the reply failed or was cut short
+   * @throws {HttpCodedError} 504 - With code `STREAM_FAILED`, if the backend sent no event for `streamIdleTimeoutMs`
    */
-  getWebchatHistory: async (sessionId: string, shareableToken: string): Promise<ChatMessage[]> => {
-    const headers = {
-      'x-shareable-token': shareableToken
+  streamWebchatMessage: async (
+    sessionId: string,
+    payload: { message: string; [key: string]: unknown },
+    shareableToken: string,
+    onDelta: (delta: string) => Promise<boolean>,
+    idempotencyKey?: string
+  ): Promise<ChatMessage> => {
+    const controller = new AbortController();
+    const headers = { ...buildHeaders(shareableToken, idempotencyKey), Accept: 'application/x-ndjson' };
+    const response = await getClient().post<Readable>(`/webchat/${sessionId}/stream`, payload, {
+      headers,
+      responseType: 'stream',
+      signal: controller.signal,
+      ...CORE_API_CALLS.streamWebchatMessage
+    });
+
+    // Armed while waiting for the next event only, so slow `onDelta` consumers do not count
+    let idleTimer: NodeJS.Timeout | undefined;
+    let stalled = false;
+    const awaitNextEvent = () => {
+      idleTimer = setTimeout(() => {
+        stalled = true;
+        controller.abort();
+      }, options.streamIdleTimeoutMs);
     };
-    const response = await client.get<APIResponseType<WebChatHistory>>(`/webchat/history/${sessionId}`, { headers });
+
+    try {
+      awaitNextEvent();
+      for await (const event of readNdjson<WebChatStreamEvent>(response.data)) {
+        clearTimeout(idleTimer);
+        switch (event.type) {
+          case 'delta':
+            if (!(await onDelta(event.delta))) {
+              throw new HttpCodedError(HttpStatusCode.Gone, 'The reply was aborted', { code: STREAM_ABORTED_CODE });
+            }
+            awaitNextEvent();
+            break;
+          case 'message':
+            return event.message;
+          case 'error':
+            throw new HttpCodedError(HttpStatusCode.BadGateway, 'The reply failed', {
+              code: event.code || STREAM_FAILED_CODE,
+              backendMessage: event.message
+            });
+          case 'cancelled':
+            throw new HttpCodedError(HttpStatusCode.Conflict, 'The reply was cancelled', {
+              code: STREAM_CANCELLED_CODE
+            });
+        }
+      }
+    } catch (error) {
+      if (error instanceof HttpCodedError) {
+        throw error;
+      }
+      if (stalled) {
+        logger.error(`Webchat reply stream stalled for ${options.streamIdleTimeoutMs}ms`);
+        throw new HttpCodedError(HttpStatusCode.GatewayTimeout, 'The reply stalled', { code: STREAM_FAILED_CODE });
+      }
+      logger.error('Webchat reply stream interrupted', error);
+      throw new HttpCodedError(HttpStatusCode.BadGateway, 'The reply was interrupted', {
+        code: STREAM_FAILED_CODE,
+        backendMessage: getErrorMessage(error)
+      });
+    } finally {
+      // Stop reading the backend response once the reply is over, whatever the outcome
+      clearTimeout(idleTimer);
+      controller.abort();
+    }
+
+    throw new HttpCodedError(HttpStatusCode.BadGateway, 'The reply ended unexpectedly', { code: STREAM_FAILED_CODE });
+  },
+
+  /**
+   * Cancels the reply being streamed in a webchat session.
+   * The stream of the reply then ends with a `cancelled` event (see `streamWebchatMessage`).
+   *
+   * @param sessionId - Unique identifier for the webchat session
+   * @param shareableToken - Token used to authenticate the request
+   * @returns Promise resolving when the backend accepted the cancellation
+   * @throws Error if the API request fails or returns an unsuccessful response
+   */
+  cancelWebchatMessage: async (sessionId: string, shareableToken: string): Promise<void> => {
+    const headers = buildHeaders(shareableToken);
+    const response = await getClient().delete<APIResponseType>(`/webchat/${sessionId}/stream`, {
+      headers,
+      ...CORE_API_CALLS.cancelWebchatMessage
+    });
+    if (!response.data.success) {
+      throw new Error(`Failed to cancel webchat reply: ${response.data.message}`);
+    }
+  },
+
+  /**
+   * Retrieves one page of the message history of a webchat session.
+   *
+   * @param sessionId - Unique identifier for the webchat session
+   * @param query - Size, cursor and role filter of the page
+   * @param shareableToken - Token used to authenticate the request
+   * @returns Promise resolving to the page, with the cursor of the next one (no messages if no history exists)
+   * @throws Error if the API request fails or returns an unsuccessful response
+   */
+  getWebchatHistory: async (
+    sessionId: string,
+    query: WebChatHistoryQuery,
+    shareableToken: string
+  ): Promise<WebchatHistoryPage> => {
+    const headers = buildHeaders(shareableToken);
+    const response = await getClient().get<APIResponseType<WebChatHistory>>(`/webchat/history/${sessionId}`, {
+      headers,
+      params: query,
+      ...CORE_API_CALLS.getWebchatHistory
+    });
     if (!response.data.success) {
       throw new Error(`Failed to fetch webchat history: ${response.data.message}`);
     }
-    const messages = response.data.result?.messages || [];
-    return messages;
+    return toHistoryPage(sessionId, response.data.result);
+  },
+
+  /**
+   * Retrieves the state of a webchat session, to restore it in a single call: conversation status,
+   * pending agent tasks, unread count and metadata, with the latest messages.
+   *
+   * @param sessionId - Unique identifier for the webchat session
+   * @param limit - Maximum number of messages in the history page
+   * @param shareableToken - Token used to authenticate the request
+   * @returns Promise resolving to the session state (an open session without messages if none exists)
+   * @throws Error if the API request fails or returns an unsuccessful response
+   */
+  getWebchatSession: async (
+    sessionId: string,
+    limit: number,
+    shareableToken: string
+  ): Promise<WebchatInitialization> => {
+    const headers = buildHeaders(shareableToken);
+    const response = await getClient().get<APIResponseType<WebChatHistory>>(`/webchat/history/${sessionId}`, {
+      headers,
+      params: { limit } satisfies WebChatHistoryQuery,
+      ...CORE_API_CALLS.getWebchatSession
+    });
+    if (!response.data.success) {
+      throw new Error(`Failed to fetch webchat session: ${response.data.message}`);
+    }
+    const history = response.data.result;
+    return {
+      sessionId,
+      status: history?.status || 'open',
+      finishedAt: history?.finishedAt || null,
+      pendingTasks: history?.pendingTasks || [],
+      unreadCount: history?.unreadCount || 0,
+      metadata: history?.metadata || {},
+      history: toHistoryPage(sessionId, history)
+    };
+  },
+
+  /**
+   * Finishes a webchat conversation, e.g. when the user closes it.
+   *
+   * @param sessionId - Unique identifier for the webchat session
+   * @param shareableToken - Token used to authenticate the request
+   * @param idempotencyKey - Optional client idempotency key, also allowing the request to be retried
+   * @returns Promise resolving to the conversation, now finished
+   * @throws Error if the API request fails or returns an unsuccessful response
+   */
+  finishWebchatConversation: async (
+    sessionId: string,
+    shareableToken: string,
+    idempotencyKey?: string
+  ): Promise<WebChatConversation | undefined> => {
+    const headers = buildHeaders(shareableToken, idempotencyKey);
+    const response = await getClient().post<APIResponseType<WebChatConversation>>(
+      `/webchat/${sessionId}/finish`,
+      null,
+      {
+        headers,
+        ...CORE_API_CALLS.finishWebchatConversation
+      }
+    );
+    if (!response.data.success) {
+      throw new Error(`Failed to finish webchat conversation: ${response.data.message}`);
+    }
+    return response.data.result;
+  },
+
+  /**
+   * Reopens a finished webchat conversation, so messages can be sent again.
+   *
+   * @param sessionId - Unique identifier for the webchat session
+   * @param shareableToken - Token used to authenticate the request
+   * @param idempotencyKey - Optional client idempotency key, also allowing the request to be retried
+   * @returns Promise resolving to the conversation, open again
+   * @throws Error if the API request fails or returns an unsuccessful response
+   */
+  reopenWebchatConversation: async (
+    sessionId: string,
+    shareableToken: string,
+    idempotencyKey?: string
+  ): Promise<WebChatConversation | undefined> => {
+    const headers = buildHeaders(shareableToken, idempotencyKey);
+    const response = await getClient().post<APIResponseType<WebChatConversation>>(
+      `/webchat/${sessionId}/reopen`,
+      null,
+      {
+        headers,
+        ...CORE_API_CALLS.reopenWebchatConversation
+      }
+    );
+    if (!response.data.success) {
+      throw new Error(`Failed to reopen webchat conversation: ${response.data.message}`);
+    }
+    return response.data.result;
+  },
+
+  /**
+   * Records feedback on a webchat conversation, or on one of its messages.
+   *
+   * @param sessionId - Unique identifier for the webchat session
+   * @param feedback - A thumb or a 1-5 rating, an optional comment, and the message ID when about one message
+   * @param shareableToken - Token used to authenticate the request
+   * @param idempotencyKey - Optional client idempotency key, also allowing the request to be retried
+   * @returns Promise resolving to the recorded feedback
+   * @throws Error if the API request fails or returns an unsuccessful response
+   */
+  sendWebchatFeedback: async (
+    sessionId: string,
+    feedback: WebChatFeedbackDTO,
+    shareableToken: string,
+    idempotencyKey?: string
+  ): Promise<WebChatFeedback | undefined> => {
+    const headers = buildHeaders(shareableToken, idempotencyKey);
+    const response = await getClient().post<APIResponseType<WebChatFeedback>>(
+      `/webchat/${sessionId}/feedback`,
+      feedback,
+      {
+        headers,
+        ...CORE_API_CALLS.sendWebchatFeedback
+      }
+    );
+    if (!response.data.success) {
+      throw new Error(`Failed to send webchat feedback: ${response.data.message}`);
+    }
+    return response.data.result;
   },
 
   /**
@@ -98,10 +436,11 @@ export const CreateCoreApiService = (client: AxiosInstance) => ({
    * @throws Error if the API request fails or returns an unsuccessful response
    */
   getPresignedUploadUrl: async (fileCreate: FileCreateDTO, shareableToken: string): Promise<SignedUrl | undefined> => {
-    const headers = {
-      'x-shareable-token': shareableToken
-    };
-    const response = await client.post<APIResponseType<SignedUrl>>(`/upload/get-link`, fileCreate, { headers });
+    const headers = buildHeaders(shareableToken);
+    const response = await getClient().post<APIResponseType<SignedUrl>>(`/upload/get-link`, fileCreate, {
+      headers,
+      ...CORE_API_CALLS.getPresignedUploadUrl
+    });
     if (!response.data.success) {
       throw new Error(`Failed to fetch upload link: ${response.data.message}`);
     }
@@ -131,14 +470,20 @@ export const CreateCoreApiService = (client: AxiosInstance) => ({
    *
    * @param fileCreate - File confirmation data including upload metadata
    * @param shareableToken - Token used to authenticate the request
+   * @param idempotencyKey - Optional client idempotency key, also allowing the request to be retried
    * @returns Promise resolving to SignedUrl details, or undefined if confirmation fails
    * @throws Error if the API request fails or returns an unsuccessful response
    */
-  confirmFileUpload: async (fileCreate: FileConfirmationDTO, shareableToken: string): Promise<FileDTO | undefined> => {
-    const headers = {
-      'x-shareable-token': shareableToken
-    };
-    const response = await client.post<APIResponseType<FileDTO>>(`/upload/confirm`, fileCreate, { headers });
+  confirmFileUpload: async (
+    fileCreate: FileConfirmationDTO,
+    shareableToken: string,
+    idempotencyKey?: string
+  ): Promise<FileDTO | undefined> => {
+    const headers = buildHeaders(shareableToken, idempotencyKey);
+    const response = await getClient().post<APIResponseType<FileDTO>>(`/upload/confirm`, fileCreate, {
+      headers,
+      ...CORE_API_CALLS.confirmFileUpload
+    });
     if (!response.data.success && !response.data.result) {
       throw new Error(`Failed to confirm upload: ${response.data.message}`);
     }
@@ -158,4 +503,4 @@ export const CreateCoreApiService = (client: AxiosInstance) => ({
 });
 
 export type CoreApiService = ReturnType<typeof CreateCoreApiService>;
-export const coreApi = CreateCoreApiService(getHttpClient());
+export const coreApi = CreateCoreApiService(getHttpClient, configurationCache, config.coreApi);
@@ -1,28 +1,30 @@
 import axios, { AxiosError, AxiosInstance, HttpStatusCode, InternalAxiosRequestConfig } from 'axios';
 import https from 'node:https';
 import { HttpCodedError } from '../errors/http-error';
-import { getErrorMessage, isTrue } from '../utils/lib';
+import { config as appConfig } from '../config';
+import { getErrorMessage } from '../utils/lib';
 import logger from '../utils/logger';
+import { decideRetry, DEFAULT_RETRY_POLICY, RetryPolicy, RetryState } from '../utils/retry-policy';
+import { circuitBreakers, CircuitBreakerRegistry } from './circuit-breaker';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Route template of the request (e.g. "POST /webchat/{sessionId}"), keying its circuit breaker */
+    route?: string;
+    /** When the request is retried, instead of the default policy of the client */
+    retryPolicy?: RetryPolicy;
+  }
+}
 
 /**
- * Default timeout for HTTP requests in milliseconds.
- */
-const DEFAULT_REQUEST_TIMEOUT = 30000;
-
-/**
- * Maximum number of retry attempts for retryable errors.
- */
-const MAX_RETRY_ATTEMPTS = 5;
-
-/**
- * Initial delay in milliseconds before the first retry.
+ * Request configuration, with the progress of the request through its attempts
  */
-const INITIAL_RETRY_DELAY = 100;
+type RetriedRequestConfig = InternalAxiosRequestConfig & { __retryState?: RetryState };
 
 /**
- * Maximum delay cap in milliseconds for exponential backoff.
+ * Default timeout for HTTP requests in milliseconds.
  */
-const MAX_RETRY_DELAY = 5000;
+const DEFAULT_REQUEST_TIMEOUT = 30000;
 
 /**
  * Singleton instance of the HTTP client.
@@ -44,6 +46,10 @@ export interface HttpClientConfig {
   headers?: Record<string, string>;
   /** If true, disables TLS certificate validation (use only in development) */
   insecureTLS?: boolean;
+  /** Circuit breakers failing requests fast while the backend is down (none if omitted) */
+  circuitBreakers?: CircuitBreakerRegistry;
+  /** Retry policy of requests that do not declare one (defaults to DEFAULT_RETRY_POLICY) */
+  retryPolicy?: RetryPolicy;
 }
 
 /**
@@ -73,42 +79,26 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Determines if an Axios error is retryable.
- *
- * Retryable errors include:
- * - Network errors (timeouts, connection failures, DNS errors)
- * - HTTP 401 Unauthorized
- * - HTTP 429 Too Many Requests
- * - HTTP 5xx Server Errors (500, 502, 503, 504)
+ * Tells whether an error means the backend could not answer: network errors and HTTP 5xx.
+ * Other responses, even errors, show the backend is up.
  *
  * @param error - Axios error to check
- * @returns True if the error is retryable, false otherwise
+ * @returns True if the error counts as a failure for the circuit breaker
  * @internal
  */
-function isRetryableError(error: AxiosError): boolean {
-  if (!error.response) {
-    const code = error.code;
-    if (
-      code === 'ECONNABORTED' ||
-      code === 'ETIMEDOUT' ||
-      code === 'ENOTFOUND' ||
-      code === 'ECONNREFUSED' ||
-      code === 'ECONNRESET'
-    ) {
-      return true;
-    }
-    return true;
-  }
+function isBackendFailure(error: AxiosError): boolean {
+  return !error.response || error.response.status >= 500;
+}
 
-  const status = error.response.status;
-  return (
-    status === (HttpStatusCode.Unauthorized as number) ||
-    status === (HttpStatusCode.TooManyRequests as number) ||
-    status === (HttpStatusCode.InternalServerError as number) ||
-    status === (HttpStatusCode.BadGateway as number) ||
-    status === (HttpStatusCode.ServiceUnavailable as number) ||
-    status === (HttpStatusCode.GatewayTimeout as number)
-  );
+/**
+ * Gets the route of a request, keying its circuit breaker.
+ *
+ * @param config - Axios request configuration
+ * @returns The declared route template, or the method and URL of the request
+ * @internal
+ */
+function getRoute(config: InternalAxiosRequestConfig): string {
+  return config.route ?? `${(config.method ?? 'get').toUpperCase()} ${config.url}`;
 }
 
 /**
@@ -187,6 +177,10 @@ function mapBackendErrorToFrontend(error: AxiosError): HttpCodedError {
  * - Request/response logging
  * - Consistent error mapping and handling
  * - Optional insecure TLS for development environments
+ * - Retries following the `retryPolicy` of each request (see `decideRetry`): POST requests are only
+ *   retried with an idempotency key, and retries are cut short by the time budget of the policy
+ * - Optional circuit breakers, one per route: requests fail fast with a 503 (`CIRCUIT_OPEN`) while open,
+ *   including the retries of a request in flight
  *
  * @param config - HTTP client configuration options
  * @returns Configured Axios instance ready for making API requests
@@ -203,6 +197,7 @@ function mapBackendErrorToFrontend(error: AxiosError): HttpCodedError {
 export function createHttpClient(config: HttpClientConfig): AxiosInstance {
   const isHttps = config.baseURL.startsWith('https://');
   const httpsAgent = isHttps ? buildHttpsAgent({ insecureTLS: config.insecureTLS }) : undefined;
+  const breakers = config.circuitBreakers;
 
   const client = axios.create({
     baseURL: config.baseURL,
@@ -215,86 +210,71 @@ export function createHttpClient(config: HttpClientConfig): AxiosInstance {
     }
   });
 
-  // Request interceptor for logging and retry handling
-  client.interceptors.request.use(
-    (config: InternalAxiosRequestConfig) => {
-      return config;
-    },
-    async (error: AxiosError) => {
-      const config = error.config as InternalAxiosRequestConfig & { __retryCount?: number };
-
-      if (isRetryableError(error) && config) {
-        const retryCount = config.__retryCount ?? 0;
-
-        if (retryCount < MAX_RETRY_ATTEMPTS) {
-          const nextRetryCount = retryCount + 1;
-          const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, retryCount), MAX_RETRY_DELAY);
-          const errorType = getErrorType(error);
-
-          logger.warn(`${errorType} (Request) - Retrying request (attempt ${nextRetryCount}/${MAX_RETRY_ATTEMPTS})`, {
-            url: config.url,
-            retryCount: nextRetryCount,
-            delay,
-            errorCode: error.code
-          });
-
-          config.__retryCount = nextRetryCount;
+  const defaultRetryPolicy = config.retryPolicy ?? DEFAULT_RETRY_POLICY;
 
-          await sleep(delay);
-
-          return client.request(config);
-        } else {
-          const errorType = getErrorType(error);
-          logger.error(`${errorType} (Request) - Max retries (${MAX_RETRY_ATTEMPTS}) exceeded`, {
-            url: config.url,
-            retryCount,
-            errorCode: error.code
-          });
-        }
-      }
+  // Request interceptor for circuit breaking and retry bookkeeping
+  client.interceptors.request.use((requestConfig: RetriedRequestConfig) => {
+    breakers?.get(getRoute(requestConfig)).assertClosed();
 
-      logger.error('HTTP Request Error', error);
-      const mappedError = mapBackendErrorToFrontend(error);
-      return Promise.reject(mappedError);
+    const state = requestConfig.__retryState;
+    if (!state) {
+      requestConfig.__retryState = { attempt: 1, startedAt: Date.now() };
+    } else {
+      // Retries are cut short at the end of the time budget
+      const { budgetMs } = requestConfig.retryPolicy ?? defaultRetryPolicy;
+      const remainingMs = Math.max(1, state.startedAt + budgetMs - Date.now());
+      requestConfig.timeout = requestConfig.timeout ? Math.min(requestConfig.timeout, remainingMs) : remainingMs;
     }
-  );
+    return requestConfig;
+  });
 
-  // Response interceptor for logging and error handling
+  // Response interceptor for circuit breaking, retries, logging and error handling
   client.interceptors.response.use(
     (response) => {
+      breakers?.get(getRoute(response.config)).recordSuccess();
       return response;
     },
-    async (error: AxiosError) => {
+    async (error: AxiosError | HttpCodedError) => {
+      // Requests refused by an open circuit never reached the backend
+      if (error instanceof HttpCodedError) {
+        return Promise.reject(error);
+      }
+
       const status = error.response?.status;
       const url = error.config?.url;
-      const config = error.config as InternalAxiosRequestConfig & { __retryCount?: number };
+      const config = error.config as RetriedRequestConfig | undefined;
 
-      if (isRetryableError(error) && config) {
-        const retryCount = config.__retryCount ?? 0;
+      if (config) {
+        const breaker = breakers?.get(getRoute(config));
+        if (isBackendFailure(error)) {
+          breaker?.recordFailure();
+        } else {
+          breaker?.recordSuccess();
+        }
 
-        if (retryCount < MAX_RETRY_ATTEMPTS) {
-          const nextRetryCount = retryCount + 1;
-          const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, retryCount), MAX_RETRY_DELAY);
-          const errorType = getErrorType(error);
+        const policy = config.retryPolicy ?? defaultRetryPolicy;
+        const state = config.__retryState ?? { attempt: 1, startedAt: Date.now() };
+        const decision = decideRetry(policy, error, state);
+        const errorType = getErrorType(error);
 
-          logger.warn(`${errorType} - Retrying request (attempt ${nextRetryCount}/${MAX_RETRY_ATTEMPTS})`, {
+        if (decision.retry) {
+          logger.warn(`${errorType} - Retrying request (attempt ${state.attempt + 1}/${policy.maxAttempts})`, {
             url,
-            retryCount: nextRetryCount,
-            delay,
+            route: getRoute(config),
+            delay: decision.delayMs,
             errorCode: error.code,
             statusCode: status
           });
 
-          config.__retryCount = nextRetryCount;
-
-          await sleep(delay);
-
+          config.__retryState = { ...state, attempt: state.attempt + 1 };
+          await sleep(decision.delayMs);
           return client.request(config);
-        } else {
-          const errorType = getErrorType(error);
-          logger.error(`${errorType} - Max retries (${MAX_RETRY_ATTEMPTS}) exceeded`, {
+        }
+
+        if (state.attempt > 1) {
+          logger.error(`${errorType} - Giving up after ${state.attempt} attempts: ${decision.reason}`, undefined, {
             url,
-            retryCount,
+            route: getRoute(config),
             errorCode: error.code,
             statusCode: status
           });
@@ -317,18 +297,20 @@ export function createHttpClient(config: HttpClientConfig): AxiosInstance {
 }
 
 /**
- * Returns a singleton HTTP client instance configured from environment variables.
+ * Returns a singleton HTTP client instance configured from the `coreApi` configuration.
  *
  * Creates the client on first call and caches it for subsequent calls.
- * Configuration is loaded from the following environment variables:
- * - `AGENTICFLO_BASE_URL` (required): Base URL for API requests
- * - `AGENTICFLO_BACKPLANE_TOKEN` (required): Authentication token
- * - `AGENTICFLO_REQUEST_TIMEOUT` (optional): Request timeout in milliseconds
- * - `AGENTICFLO_TLS_INSECURE` (optional): Set to '1', 'true', or 'yes' to disable TLS validation
- * - `IS_OFFLINE` (optional): Must also be truthy for insecure TLS to be enabled
+ * Configuration comes from `config.coreApi` (see `src/config.ts`):
+ * - `baseUrl` (`AGENTICFLO_BASE_URL`, required): Base URL for API requests
+ * - `backplaneToken` (`AGENTICFLO_BACKPLANE_TOKEN`, required): Authentication token
+ * - `requestTimeoutMs` (`AGENTICFLO_REQUEST_TIMEOUT`): Request timeout in milliseconds
+ * - `tlsInsecure` (`AGENTICFLO_TLS_INSECURE`): Disables TLS validation, only when running offline
+ *
+ * Requests are guarded by the `circuitBreakers` of the service (see `config.circuitBreaker`).
  *
  * @returns Singleton Axios instance configured for the application
- * @throws Error if required environment variables (AGENTICFLO_BASE_URL or AGENTICFLO_BACKPLANE_TOKEN) are not set
+ * @throws Error if the base URL or backplane token are not configured (only possible outside of `prod`). Call it
+ * when making a request, not at module load, so routes not calling the core API still work without them
  *
  * @example
  * ```typescript
@@ -338,10 +320,7 @@ export function createHttpClient(config: HttpClientConfig): AxiosInstance {
  */
 export function getHttpClient(): AxiosInstance {
   if (!httpClient) {
-    const baseURL = process.env.AGENTICFLO_BASE_URL;
-    const authToken = process.env.AGENTICFLO_BACKPLANE_TOKEN;
-    const parsed = Number(process.env.AGENTICFLO_REQUEST_TIMEOUT);
-    const timeout = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_REQUEST_TIMEOUT;
+    const { baseUrl: baseURL, backplaneToken: authToken, requestTimeoutMs: timeout, tlsInsecure } = appConfig.coreApi;
 
     if (!baseURL) {
       throw new Error('AGENTICFLO_BASE_URL environment variable is not set');
@@ -351,13 +330,14 @@ export function getHttpClient(): AxiosInstance {
       throw new Error('AGENTICFLO_BACKPLANE_TOKEN environment variable is not set');
     }
 
-    const insecureTLS = isTrue(process.env.AGENTICFLO_TLS_INSECURE) && isTrue(process.env.IS_OFFLINE);
+    const insecureTLS = tlsInsecure && appConfig.isOffline;
 
     httpClient = createHttpClient({
       baseURL,
       authToken,
       timeout,
-      insecureTLS
+      insecureTLS,
+      circuitBreakers
     });
   }
 
@@ -0,0 +1,118 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../config';
+import { IdempotencyRecord } from '../types/idempotency-types';
+import { HandlerResponse } from '../types/response-types';
+import { IN_PROGRESS_TTL_SECONDS } from '../utils/idempotency';
+import { CreateInMemoryIdempotencyStore } from './memory-idempotency-store';
+
+/**
+ * Create a DynamoDB-backed idempotency store for production use
+ *
+ * This factory function creates a store remembering the first result of requests sent with an idempotency
+ * key. Keys are claimed with a conditional write, so concurrent duplicates cannot both proceed.
+ * Records expire through TTL once the idempotency window is over.
+ *
+ * @param docClient - The DynamoDB Document Client instance for database operations
+ * @param TableName - The idempotency table name
+ * @param windowSeconds - How long completed results are replayed (`IDEMPOTENCY_WINDOW_SECONDS`)
+ * @returns An object with methods to claim, complete and release idempotency keys in DynamoDB
+ */
+export const CreateDynamoDBIdempotencyStore = (
+  docClient: DynamoDBDocumentClient,
+  TableName: string,
+  windowSeconds: number
+) => ({
+  /**
+   * Initialize the idempotency store
+   * No-op for DynamoDB implementation as it requires no initialization
+   */
+  init: () => {},
+
+  /**
+   * Clean up resources when shutting down
+   * No-op for DynamoDB implementation as it requires no cleanup
+   */
+  destroy: () => {},
+
+  /**
+   * Claim an idempotency key for a request about to be processed
+   *
+   * @param idempotencyKey - The scoped idempotency key
+   * @param fingerprint - Fingerprint of the request body
+   * @returns Promise that resolves to null if the key was claimed, or to the record of the request holding it
+   */
+  claim: async (idempotencyKey: string, fingerprint: string): Promise<IdempotencyRecord | null> => {
+    const now = Math.floor(Date.now() / 1000);
+    const record: IdempotencyRecord = {
+      idempotencyKey,
+      status: 'in-progress',
+      fingerprint,
+      createdAt: now,
+      ttl: now + IN_PROGRESS_TTL_SECONDS
+    };
+
+    try {
+      await docClient.send(
+        new PutCommand({
+          TableName,
+          Item: record,
+          // TTL deletion is not immediate: expired records can be claimed again
+          ConditionExpression: 'attribute_not_exists(idempotencyKey) OR #ttl < :now',
+          ExpressionAttributeNames: { '#ttl': 'ttl' },
+          ExpressionAttributeValues: { ':now': now }
+        })
+      );
+      return null;
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+
+    const result = await docClient.send(new GetCommand({ TableName, Key: { idempotencyKey }, ConsistentRead: true }));
+    // Released meanwhile: let the caller retry rather than process the request twice
+    return (result.Item as IdempotencyRecord) || { ...record, createdAt: now };
+  },
+
+  /**
+   * Store the result of the request holding an idempotency key, replayed until the window is over
+   *
+   * @param idempotencyKey - The scoped idempotency key
+   * @param fingerprint - Fingerprint of the request body
+   * @param response - The handler response to replay
+   * @returns Promise that resolves when the result is saved
+   */
+  complete: async (idempotencyKey: string, fingerprint: string, response: HandlerResponse): Promise<void> => {
+    const now = Math.floor(Date.now() / 1000);
+    const record: IdempotencyRecord = {
+      idempotencyKey,
+      status: 'completed',
+      fingerprint,
+      response,
+      createdAt: now,
+      ttl: now + windowSeconds
+    };
+    await docClient.send(new PutCommand({ TableName, Item: record }));
+  },
+
+  /**
+   * Release an idempotency key after its request failed, so the client can retry it
+   *
+   * @param idempotencyKey - The scoped idempotency key
+   * @returns Promise that resolves when the key is released
+   */
+  release: async (idempotencyKey: string): Promise<void> => {
+    await docClient.send(new DeleteCommand({ TableName, Key: { idempotencyKey } }));
+  }
+});
+
+export type IdempotencyStore = ReturnType<typeof CreateDynamoDBIdempotencyStore>;
+const client = new DynamoDBClient({});
+const TableName = config.idempotency.table;
+
+export const instance: IdempotencyStore = config.isOffline
+  ? CreateInMemoryIdempotencyStore(new Map<string, IdempotencyRecord>(), config.idempotency.windowSeconds)
+  : CreateDynamoDBIdempotencyStore(DynamoDBDocumentClient.from(client), TableName, config.idempotency.windowSeconds);
+instance.init();
+export const idempotencyStore = instance;
@@ -1,5 +1,5 @@
 import { ConnectionRecord } from '../types/websocket-types';
-import { ShareableContext } from '../types/shareable-context';
+import { ShareableContext, TransientTokenClaims } from '../types/shareable-context';
 import logger from '../utils/logger';
 
 /**
@@ -10,9 +10,13 @@ import logger from '../utils/logger';
  * periodic interval timer. Ideal for local development and testing.
  *
  * @param connections - A Map to store connection records, keyed by connection ID
+ * @param connectionTtlSeconds - Lifetime of connection records (`WS_CONNECTIONS_TTL`)
  * @returns An object with methods to manage WebSocket connections in memory
  */
-export const CreateInMemoryConnectionManager = (connections: Map<string, ConnectionRecord>) => {
+export const CreateInMemoryConnectionManager = (
+  connections: Map<string, ConnectionRecord>,
+  connectionTtlSeconds: number
+) => {
   let cleanupIntervalId: NodeJS.Timeout | null = null;
 
   const cleanupExpiredConnections = (): void => {
@@ -53,16 +57,23 @@ export const CreateInMemoryConnectionManager = (connections: Map<string, Connect
     saveConnection: async (
       connectionId: string,
       shareableContext?: ShareableContext,
-      sessionId?: string
+      sessionId?: string,
+      authClaims?: TransientTokenClaims,
+      origin?: string
     ): Promise<void> => {
       const now = Math.floor(Date.now() / 1000);
-      const ttl = now + Number(process.env.WS_CONNECTIONS_TTL || '24') * 60 * 60;
+      const ttl = now + connectionTtlSeconds;
 
       const record: ConnectionRecord = {
         connectionId,
         authenticated: !!shareableContext, // Authenticated only if context provided
         shareableContext,
         sessionId,
+        // Kept to refuse commands once the JWT expires or is revoked
+        authExpiresAt: authClaims?.exp,
+        authIssuedAt: authClaims?.iat,
+        authJti: authClaims?.jti,
+        origin,
         connectedAt: now,
         ttl
       };
@@ -140,6 +151,16 @@ export const CreateInMemoryConnectionManager = (connections: Map<string, Connect
 
       logger.debug(`[OFFLINE MODE] Found ${results.length} connections for ${resourceType}:${resourceId}`);
 
+      return Promise.resolve(results);
+    },
+
+    getUnauthenticatedConnections: async (connectedBefore: number): Promise<ConnectionRecord[]> => {
+      const results = [...connections.values()].filter(
+        (record) => !record.authenticated && record.connectedAt < connectedBefore
+      );
+
+      logger.debug(`[OFFLINE MODE] Found ${results.length} unauthenticated connections`);
+
       return Promise.resolve(results);
     }
   };
@@ -0,0 +1,94 @@
+import { IdempotencyRecord } from '../types/idempotency-types';
+import { HandlerResponse } from '../types/response-types';
+import { IN_PROGRESS_TTL_SECONDS } from '../utils/idempotency';
+import logger from '../utils/logger';
+
+/**
+ * Create an in-memory idempotency store for offline/local development
+ *
+ * This factory function creates an idempotency store that keeps records in memory using a Map.
+ * It includes automatic cleanup of expired records via a periodic interval timer.
+ * Ideal for local development and testing.
+ *
+ * @param records - A Map to store idempotency records, keyed by scoped idempotency key
+ * @param windowSeconds - How long completed results are replayed (`IDEMPOTENCY_WINDOW_SECONDS`)
+ * @returns An object with methods to claim, complete and release idempotency keys in memory
+ */
+export const CreateInMemoryIdempotencyStore = (records: Map<string, IdempotencyRecord>, windowSeconds: number) => {
+  let cleanupIntervalId: NodeJS.Timeout | null = null;
+
+  const cleanupExpiredRecords = (): void => {
+    const now = Math.floor(Date.now() / 1000);
+    let cleanedCount = 0;
+
+    for (const [idempotencyKey, record] of records.entries()) {
+      if (record.ttl < now) {
+        records.delete(idempotencyKey);
+        cleanedCount++;
+      }
+    }
+
+    if (cleanedCount > 0) {
+      logger.debug(`[OFFLINE MODE] Cleaned up ${cleanedCount} expired idempotency records`);
+    }
+  };
+
+  return {
+    init: () => {
+      if (cleanupIntervalId !== null) {
+        logger.warn('[OFFLINE MODE] Idempotency store already initialized');
+        return;
+      }
+
+      logger.info('[OFFLINE MODE] Using in-memory idempotency store');
+      cleanupIntervalId = setInterval(cleanupExpiredRecords, 60000);
+    },
+
+    destroy: () => {
+      if (cleanupIntervalId !== null) {
+        clearInterval(cleanupIntervalId);
+        cleanupIntervalId = null;
+        logger.info('[OFFLINE MODE] Idempotency store destroyed');
+      }
+    },
+
+    claim: async (idempotencyKey: string, fingerprint: string): Promise<IdempotencyRecord | null> => {
+      const now = Math.floor(Date.now() / 1000);
+      const existing = records.get(idempotencyKey);
+      if (existing && existing.ttl >= now) {
+        return Promise.resolve(existing);
+      }
+
+      records.set(idempotencyKey, {
+        idempotencyKey,
+        status: 'in-progress',
+        fingerprint,
+        createdAt: now,
+        ttl: now + IN_PROGRESS_TTL_SECONDS
+      });
+      return Promise.resolve(null);
+    },
+
+    complete: async (idempotencyKey: string, fingerprint: string, response: HandlerResponse): Promise<void> => {
+      const now = Math.floor(Date.now() / 1000);
+      records.set(idempotencyKey, {
+        idempotencyKey,
+        status: 'completed',
+        fingerprint,
+        response,
+        createdAt: now,
+        ttl: now + windowSeconds
+      });
+
+      logger.debug(`[OFFLINE MODE] Saved idempotency record ${idempotencyKey}. Total records: ${records.size}`);
+      await Promise.resolve();
+    },
+
+    release: async (idempotencyKey: string): Promise<void> => {
+      records.delete(idempotencyKey);
+      await Promise.resolve();
+    }
+  };
+};
+
+export type InMemoryIdempotencyStore = ReturnType<typeof CreateInMemoryIdempotencyStore>;
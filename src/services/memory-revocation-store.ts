@@ -0,0 +1,80 @@
+import { RevocationRecord } from '../types/revocation-types';
+import { TransientTokenClaims } from '../types/shareable-context';
+import logger from '../utils/logger';
+import { isRevokedBy, jtiRevocationKey, shareableRevocationKey } from '../utils/revocation';
+
+/**
+ * Create an in-memory revocation store for offline/local development
+ *
+ * This factory function creates a revocation store that keeps revocations in memory using a Map.
+ * It includes automatic cleanup of expired records via a periodic interval timer.
+ * Ideal for local development and testing.
+ *
+ * @param revocations - A Map to store revocation records, keyed by revocation key
+ * @param retentionSeconds - How long records are kept, the maximum lifetime of a token session
+ * @returns An object with methods to revoke tokens and check revocations in memory
+ */
+export const CreateInMemoryRevocationStore = (revocations: Map<string, RevocationRecord>, retentionSeconds: number) => {
+  let cleanupIntervalId: NodeJS.Timeout | null = null;
+
+  const cleanupExpiredRevocations = (): void => {
+    const now = Math.floor(Date.now() / 1000);
+    let cleanedCount = 0;
+
+    for (const [revocationKey, record] of revocations.entries()) {
+      if (record.ttl < now) {
+        revocations.delete(revocationKey);
+        cleanedCount++;
+      }
+    }
+
+    if (cleanedCount > 0) {
+      logger.debug(`[OFFLINE MODE] Cleaned up ${cleanedCount} expired revocations`);
+    }
+  };
+
+  const put = async (revocationKey: string): Promise<void> => {
+    const now = Math.floor(Date.now() / 1000);
+    revocations.set(revocationKey, { revocationKey, revokedAt: now, ttl: now + retentionSeconds });
+
+    logger.debug(`[OFFLINE MODE] Saved revocation ${revocationKey}. Total revocations: ${revocations.size}`);
+    await Promise.resolve();
+  };
+
+  return {
+    init: () => {
+      if (cleanupIntervalId !== null) {
+        logger.warn('[OFFLINE MODE] Revocation store already initialized');
+        return;
+      }
+
+      logger.info('[OFFLINE MODE] Using in-memory revocation store');
+      cleanupIntervalId = setInterval(cleanupExpiredRevocations, 60000);
+    },
+
+    destroy: () => {
+      if (cleanupIntervalId !== null) {
+        clearInterval(cleanupIntervalId);
+        cleanupIntervalId = null;
+        logger.info('[OFFLINE MODE] Revocation store destroyed');
+      }
+    },
+
+    revokeToken: (jti: string): Promise<void> => put(jtiRevocationKey(jti)),
+
+    revokeShareable: (type: string, id: string): Promise<void> => put(shareableRevocationKey(type, id)),
+
+    isRevoked: async (claims: TransientTokenClaims): Promise<boolean> => {
+      const records = [
+        claims.jti ? revocations.get(jtiRevocationKey(claims.jti)) : undefined,
+        revocations.get(shareableRevocationKey(claims.type, claims.id))
+      ];
+      return Promise.resolve(records.some((record) => isRevokedBy(record, claims)));
+    },
+
+    shareableRevokedAt: async (type: string, id: string): Promise<number | undefined> =>
+      Promise.resolve(revocations.get(shareableRevocationKey(type, id))?.revokedAt)
+  };
+};
+
+export type InMemoryRevocationStore = ReturnType<typeof CreateInMemoryRevocationStore>;
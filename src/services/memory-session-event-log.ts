@@ -0,0 +1,79 @@
+import { SessionEvent } from '../types/session-event-types';
+import logger from '../utils/logger';
+
+/**
+ * Create an in-memory session event log for offline/local development
+ *
+ * This factory function creates a session event log that keeps events in memory using a Map.
+ * It includes automatic cleanup of expired events via a periodic interval timer.
+ * Ideal for local development and testing.
+ *
+ * @param sessions - A Map to store the events of each session, keyed by stream key
+ * @param ttlSeconds - How long events are kept (`SESSION_EVENTS_TTL_SECONDS`)
+ * @returns An object with methods to append and read session events in memory
+ */
+export const CreateInMemorySessionEventLog = (sessions: Map<string, SessionEvent[]>, ttlSeconds: number) => {
+  let cleanupIntervalId: NodeJS.Timeout | null = null;
+
+  const cleanupExpiredEvents = (): void => {
+    const now = Math.floor(Date.now() / 1000);
+    let cleanedCount = 0;
+
+    for (const [streamKey, events] of sessions.entries()) {
+      const remaining = events.filter((event) => event.ttl >= now);
+      cleanedCount += events.length - remaining.length;
+      if (remaining.length) {
+        sessions.set(streamKey, remaining);
+      } else {
+        sessions.delete(streamKey);
+      }
+    }
+
+    if (cleanedCount > 0) {
+      logger.debug(`[OFFLINE MODE] Cleaned up ${cleanedCount} expired session events`);
+    }
+  };
+
+  return {
+    init: () => {
+      if (cleanupIntervalId !== null) {
+        logger.warn('[OFFLINE MODE] Session event log already initialized');
+        return;
+      }
+
+      logger.info('[OFFLINE MODE] Using in-memory session event log');
+      cleanupIntervalId = setInterval(cleanupExpiredEvents, 60000);
+    },
+
+    destroy: () => {
+      if (cleanupIntervalId !== null) {
+        clearInterval(cleanupIntervalId);
+        cleanupIntervalId = null;
+        logger.info('[OFFLINE MODE] Session event log destroyed');
+      }
+    },
+
+    append: async (streamKey: string, type: string, data: unknown): Promise<SessionEvent> => {
+      const now = Math.floor(Date.now() / 1000);
+      const events = sessions.get(streamKey) || [];
+      // Same numbering as DynamoDB: a new session starts from the current time
+      const seq = events.length ? events[events.length - 1].seq + 1 : Date.now() + 1;
+
+      const event: SessionEvent = { streamKey, seq, type, data, createdAt: now, ttl: now + ttlSeconds };
+      sessions.set(streamKey, [...events, event]);
+      return Promise.resolve(event);
+    },
+
+    lastSeq: async (streamKey: string): Promise<number> => {
+      const events = sessions.get(streamKey) || [];
+      return Promise.resolve(events.length ? events[events.length - 1].seq : 0);
+    },
+
+    readAfter: async (streamKey: string, afterSeq: number, limit = 100): Promise<SessionEvent[]> => {
+      const events = sessions.get(streamKey) || [];
+      return Promise.resolve(events.filter((event) => event.seq > afterSeq).slice(0, limit));
+    }
+  };
+};
+
+export type InMemorySessionEventLog = ReturnType<typeof CreateInMemorySessionEventLog>;
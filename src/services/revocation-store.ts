@@ -0,0 +1,105 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { RevocationRecord } from '../types/revocation-types';
+import { TransientTokenClaims } from '../types/shareable-context';
+import { CreateInMemoryRevocationStore } from './memory-revocation-store';
+import { config } from '../config';
+import { isRevokedBy, jtiRevocationKey, shareableRevocationKey } from '../utils/revocation';
+
+/**
+ * Create a DynamoDB-backed revocation store for production use
+ *
+ * This factory function creates a revocation store (a denylist) that persists revoked token IDs and
+ * revoked shareables in DynamoDB. Records expire through TTL once every token they may apply to
+ * has reached the maximum session lifetime.
+ *
+ * @param docClient - The DynamoDB Document Client instance for database operations
+ * @param TableName - The revocations table name
+ * @param retentionSeconds - How long records are kept, the maximum lifetime of a token session
+ * @returns An object with methods to revoke tokens and check revocations in DynamoDB
+ */
+export const CreateDynamoDBRevocationStore = (
+  docClient: DynamoDBDocumentClient,
+  TableName: string,
+  retentionSeconds: number
+) => {
+  const put = async (revocationKey: string): Promise<void> => {
+    const now = Math.floor(Date.now() / 1000);
+    const record: RevocationRecord = { revocationKey, revokedAt: now, ttl: now + retentionSeconds };
+    await docClient.send(new PutCommand({ TableName, Item: record }));
+  };
+
+  const get = async (revocationKey: string): Promise<RevocationRecord | null> => {
+    const result = await docClient.send(new GetCommand({ TableName, Key: { revocationKey } }));
+    return (result.Item as RevocationRecord) || null;
+  };
+
+  return {
+    /**
+     * Initialize the revocation store
+     * No-op for DynamoDB implementation as it requires no initialization
+     */
+    init: () => {},
+
+    /**
+     * Clean up resources when shutting down
+     * No-op for DynamoDB implementation as it requires no cleanup
+     */
+    destroy: () => {},
+
+    /**
+     * Revoke a single token by its `jti` claim
+     *
+     * @param jti - The token ID to revoke
+     * @returns Promise that resolves when the revocation is saved
+     */
+    revokeToken: (jti: string): Promise<void> => put(jtiRevocationKey(jti)),
+
+    /**
+     * Revoke every token issued so far for a shareable
+     * Tokens issued afterwards (e.g., once the shareable is re-enabled) are not affected.
+     *
+     * @param type - The shareable resource type
+     * @param id - The shareable resource ID
+     * @returns Promise that resolves when the revocation is saved
+     */
+    revokeShareable: (type: string, id: string): Promise<void> => put(shareableRevocationKey(type, id)),
+
+    /**
+     * Check whether a token has been revoked, by `jti` or through its shareable
+     *
+     * @param claims - The decoded token claims
+     * @returns Promise that resolves to true if the token must be rejected
+     */
+    isRevoked: async (claims: TransientTokenClaims): Promise<boolean> => {
+      const records = await Promise.all([
+        claims.jti ? get(jtiRevocationKey(claims.jti)) : null,
+        get(shareableRevocationKey(claims.type, claims.id))
+      ]);
+      return records.some((record) => isRevokedBy(record, claims));
+    },
+
+    /**
+     * Get the time a shareable was last revoked
+     * Lets caches tell whether what they hold for the shareable predates the revocation.
+     *
+     * @param type - The shareable resource type
+     * @param id - The shareable resource ID
+     * @returns Promise that resolves to the revocation timestamp (seconds), or undefined if not revoked
+     */
+    shareableRevokedAt: async (type: string, id: string): Promise<number | undefined> =>
+      (await get(shareableRevocationKey(type, id)))?.revokedAt
+  };
+};
+
+export type RevocationStore = ReturnType<typeof CreateDynamoDBRevocationStore>;
+const client = new DynamoDBClient({});
+const TableName = config.revocations.table;
+// Revocations only need to outlive the longest session
+const retentionSeconds = config.clientAuth.maxSessionSeconds;
+
+export const instance: RevocationStore = config.isOffline
+  ? CreateInMemoryRevocationStore(new Map<string, RevocationRecord>(), retentionSeconds)
+  : CreateDynamoDBRevocationStore(DynamoDBDocumentClient.from(client), TableName, retentionSeconds);
+instance.init();
+export const revocationStore = instance;
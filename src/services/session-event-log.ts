@@ -0,0 +1,150 @@
+import { DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../config';
+import { SessionEvent } from '../types/session-event-types';
+import { CreateInMemorySessionEventLog } from './memory-session-event-log';
+
+/** Sort key of the item holding the last sequence number of a session, below every event */
+const COUNTER_SEQ = 0;
+
+/** Attempts to append an event while other writers append to the same session */
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * Reads the last sequence number of a session, from its counter
+ *
+ * @internal
+ */
+async function readLastSeq(
+  docClient: DynamoDBDocumentClient,
+  TableName: string,
+  streamKey: string
+): Promise<number | undefined> {
+  const result = await docClient.send(
+    new GetCommand({ TableName, Key: { streamKey, seq: COUNTER_SEQ }, ConsistentRead: true })
+  );
+  return result.Item?.lastSeq as number | undefined;
+}
+
+/**
+ * Create a DynamoDB-backed session event log for production use
+ *
+ * This factory function creates a log of the events of each webchat session (reply chunks, replies, failures),
+ * written by the invocation handling the message and followed by Server-Sent Events clients in other invocations.
+ * Events are numbered per session by a counter, written in the same transaction as each event: followers reading
+ * the log never see an event before the ones numbered below it. Events expire through TTL.
+ *
+ * @param docClient - The DynamoDB Document Client instance for database operations
+ * @param TableName - The session events table name
+ * @param ttlSeconds - How long events are kept (`SESSION_EVENTS_TTL_SECONDS`)
+ * @returns An object with methods to append and read session events in DynamoDB
+ */
+export const CreateDynamoDBSessionEventLog = (
+  docClient: DynamoDBDocumentClient,
+  TableName: string,
+  ttlSeconds: number
+) => ({
+  /**
+   * Initialize the session event log
+   * No-op for DynamoDB implementation as it requires no initialization
+   */
+  init: () => {},
+
+  /**
+   * Clean up resources when shutting down
+   * No-op for DynamoDB implementation as it requires no cleanup
+   */
+  destroy: () => {},
+
+  /**
+   * Append an event to the log of a session
+   *
+   * @param streamKey - The session stream key (see `sessionStreamKey`)
+   * @param type - The event name, e.g. "webchat:delta"
+   * @param data - The event data
+   * @returns Promise that resolves to the stored event, with its sequence number
+   */
+  append: async (streamKey: string, type: string, data: unknown): Promise<SessionEvent> => {
+    for (let attempt = 1; ; attempt++) {
+      const now = Math.floor(Date.now() / 1000);
+      const ttl = now + ttlSeconds;
+      const lastSeq = await readLastSeq(docClient, TableName, streamKey);
+      // A new (or expired) counter starts from the current time, above the IDs clients may still resume from
+      const event: SessionEvent = { streamKey, seq: (lastSeq ?? Date.now()) + 1, type, data, createdAt: now, ttl };
+
+      try {
+        await docClient.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              {
+                // Fails if another event was appended since the counter was read
+                Update: {
+                  TableName,
+                  Key: { streamKey, seq: COUNTER_SEQ },
+                  UpdateExpression: 'SET lastSeq = :seq, #ttl = :ttl',
+                  ConditionExpression: lastSeq === undefined ? 'attribute_not_exists(lastSeq)' : 'lastSeq = :lastSeq',
+                  ExpressionAttributeNames: { '#ttl': 'ttl' },
+                  ExpressionAttributeValues: {
+                    ':seq': event.seq,
+                    ':ttl': ttl,
+                    ...(lastSeq === undefined ? {} : { ':lastSeq': lastSeq })
+                  }
+                }
+              },
+              { Put: { TableName, Item: event } }
+            ]
+          })
+        );
+        return event;
+      } catch (error) {
+        if (!(error instanceof TransactionCanceledException) || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  },
+
+  /**
+   * Read the sequence number of the last event of a session, for new followers to start after it
+   *
+   * @param streamKey - The session stream key (see `sessionStreamKey`)
+   * @returns Promise that resolves to the last sequence number, 0 if no event was appended
+   */
+  lastSeq: async (streamKey: string): Promise<number> => (await readLastSeq(docClient, TableName, streamKey)) ?? 0,
+
+  /**
+   * Read the events of a session appended after a sequence number, oldest first
+   *
+   * @param streamKey - The session stream key (see `sessionStreamKey`)
+   * @param afterSeq - Sequence number of the last event already read, 0 to read from the start
+   * @param limit - Maximum number of events to read
+   * @returns Promise that resolves to the events, possibly expired but not yet deleted by TTL
+   */
+  readAfter: async (streamKey: string, afterSeq: number, limit = 100): Promise<SessionEvent[]> => {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName,
+        KeyConditionExpression: 'streamKey = :streamKey AND seq > :afterSeq',
+        ExpressionAttributeValues: { ':streamKey': streamKey, ':afterSeq': Math.max(afterSeq, COUNTER_SEQ) },
+        ConsistentRead: true,
+        Limit: limit
+      })
+    );
+    return (result.Items || []) as SessionEvent[];
+  }
+});
+
+export type SessionEventLog = ReturnType<typeof CreateDynamoDBSessionEventLog>;
+const client = new DynamoDBClient({});
+const TableName = config.sessionEvents.table;
+
+export const instance: SessionEventLog = config.isOffline
+  ? CreateInMemorySessionEventLog(new Map<string, SessionEvent[]>(), config.sessionEvents.ttlSeconds)
+  : CreateDynamoDBSessionEventLog(
+      // Event data are frames built for JSON, where optional fields may be left undefined
+      DynamoDBDocumentClient.from(client, { marshallOptions: { removeUndefinedValues: true } }),
+      TableName,
+      config.sessionEvents.ttlSeconds
+    );
+instance.init();
+export const sessionEventLog = instance;
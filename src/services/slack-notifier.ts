@@ -1,8 +1,11 @@
 import { HttpStatusCode } from 'axios';
 import type { IncomingMessage } from 'http';
 import https from 'https';
-import { HttpCodedError } from '../errors/http-error';
+import { config } from '../config';
+import { CIRCUIT_OPEN_CODE, STREAM_ABORTED_CODE, STREAM_CANCELLED_CODE } from '../errors/error-codes';
+import { ErrorDetails, HttpCodedError } from '../errors/http-error';
 import { RequestEvent } from '../types/request-types';
+import { getCorrelationId } from '../utils/correlation';
 import { getHeader } from '../utils/lib';
 import logger from '../utils/logger';
 
@@ -20,10 +23,11 @@ export type ErrorNotificationData = {
     token?: string;
     userAgent?: string;
     requestId?: string;
+    correlationId?: string;
   };
 };
 
-const SLACK_WEBHOOK_URL = process.env.SLACK_WEBHOOK_URL;
+const SLACK_WEBHOOK_URL = config.slack.webhookUrl;
 
 /**
  * Checks if an error is a 401 error from the core API that has already been retried.
@@ -71,6 +75,28 @@ function isRetriedCoreApi401Error(error: unknown): boolean {
   return true;
 }
 
+/**
+ * Checks if an error is a request refused by an open circuit breaker.
+ * The circuit opening is logged once: requests refused while it stays open are not notified.
+ *
+ * @param error - The error to check
+ * @returns True if the error was raised by an open circuit breaker
+ */
+function isCircuitOpenError(error: unknown): boolean {
+  return error instanceof HttpCodedError && (error.details as ErrorDetails | undefined)?.code === CIRCUIT_OPEN_CODE;
+}
+
+/**
+ * Checks if an error is a streamed reply ended by the client: cancelled, or aborted because the client left.
+ *
+ * @param error - The error to check
+ * @returns True if the reply was ended by the client
+ */
+function isStreamEndedByClientError(error: unknown): boolean {
+  const code = error instanceof HttpCodedError ? (error.details as ErrorDetails | undefined)?.code : undefined;
+  return code === STREAM_CANCELLED_CODE || code === STREAM_ABORTED_CODE;
+}
+
 function serializeError(error: unknown): Record<string, unknown> {
   if (error instanceof Error) {
     const errorObj: Record<string, unknown> = {
@@ -110,7 +136,7 @@ export function extractErrorData(
   error: unknown,
   additionalContext?: Record<string, unknown>
 ): ErrorNotificationData {
-  const environment = process.env.STAGE || 'dev';
+  const environment = config.stage;
   const timestamp = new Date().toISOString();
   const errorJson = serializeError(error);
   const stacktrace = error instanceof Error ? error.stack || 'No stack trace available' : 'No stack trace available';
@@ -118,7 +144,7 @@ export function extractErrorData(
   let endpoint = 'unknown';
   let method = 'UNKNOWN';
   let payload: unknown = null;
-  let clientInfo: ErrorNotificationData['clientInfo'] = {};
+  let clientInfo: ErrorNotificationData['clientInfo'] = { correlationId: getCorrelationId() };
 
   if (requestEvent) {
     const { targetResource, parsedBody, httpContext, websocketContext } = requestEvent;
@@ -135,6 +161,7 @@ export function extractErrorData(
       const requestContext = httpContext.requestContext;
 
       clientInfo = {
+        ...clientInfo,
         ip: requestContext?.http?.sourceIp,
         origin: getHeader(headers, 'origin'),
         userAgent: getHeader(headers, 'user-agent'),
@@ -151,6 +178,7 @@ export function extractErrorData(
       const requestContext = websocketContext.requestContext;
 
       clientInfo = {
+        ...clientInfo,
         requestId: requestContext?.requestId || requestContext?.connectionId
       };
     }
@@ -205,6 +233,10 @@ function formatSlackMessage(errorData: ErrorNotificationData): Record<string, un
         {
           type: 'mrkdwn',
           text: `*Endpoint:*\n${method} ${endpoint}`
+        },
+        {
+          type: 'mrkdwn',
+          text: `*Correlation ID:*\n${clientInfo.correlationId || 'N/A'}`
         }
       ]
     },
@@ -322,11 +354,11 @@ export function notifySlackAsync(errorData: ErrorNotificationData): void {
  * Checks if an error should be sent to Slack.
  *
  * Filters out 401 errors from the core API that have already been retried,
- * as these are expected and handled automatically.
+ * as these are expected and handled automatically, and streamed replies ended by the client.
  *
  * @param error - The error to check
  * @returns True if the error should be sent to Slack, false otherwise
  */
 export function shouldNotifySlack(error: unknown): boolean {
-  return !isRetriedCoreApi401Error(error);
+  return !isRetriedCoreApi401Error(error) && !isCircuitOpenError(error) && !isStreamEndedByClientError(error);
 }
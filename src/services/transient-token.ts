@@ -1,61 +1,166 @@
+import { randomUUID } from 'node:crypto';
 import jwt from 'jsonwebtoken';
+import { config } from '../config';
 import logger from '../utils/logger';
 import { getErrorMessage } from '../utils/lib';
-import { ShareableContext } from '../types/shareable-context';
+import { signToken, verifyToken } from '../utils/jwt';
+import { ShareableContext, TransientTokenClaims } from '../types/shareable-context';
+import { keyring, Keyring } from './keyring';
+import { revocationStore, RevocationStore } from './revocation-store';
 
-export const CreateTransientTokenService = (secret: string, defaultTransientTTL: string) => ({
-  /**
-   * Verifies and decodes a JWT token.
-   *
-   * @param token - JWT token string to verify
-   * @param options - Optional JWT verification options (e.g., audience, issuer)
-   * @returns Decoded ShareableContext from the token payload
-   * @throws Error with message 'Invalid or expired token' if verification fails for any reason
-   *
-   * @example
-   * ```typescript
-   * try {
-   *   const context = tokenService.verify(tokenString);
-   *   console.log('User ID:', context.userId);
-   * } catch (error) {
-   *   console.error('Token verification failed');
-   * }
-   * ```
-   */
-  verify: (token: string, options?: jwt.VerifyOptions): ShareableContext | null => {
-    try {
-      const decoded = jwt.verify(token, secret, options) as ShareableContext;
-      return decoded;
-    } catch (err: any) {
-      const msg = getErrorMessage(err);
-      logger.error(msg, err);
-      return null;
-    }
-  },
+/**
+ * Current time in epoch seconds, the unit of JWT time claims
+ *
+ * @internal
+ */
+const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
 
+export const CreateTransientTokenService = (
+  keyring: Keyring,
+  defaultTransientTTL: string,
+  refreshGraceSeconds: number,
+  maxSessionSeconds: number,
+  revocationStore: RevocationStore
+) => {
   /**
-   * Generates a signed JWT token containing the provided payload.
-   *
-   * @param payload - ShareableContext data to encode in the token
-   * @param expiresIn - Token expiration time as a string (e.g., '10m', '1h', '7d'). Defaults to '10m'
-   * @returns Signed JWT token string
-   *
-   * @example
-   * ```typescript
-   * // Generate a token that expires in 10 minutes (default)
-   * const shortToken = tokenService.generate({ userId: '123', role: 'user' });
-   *
-   * // Generate a token that expires in 1 hour
-   * const longToken = tokenService.generate({ userId: '123', role: 'admin' }, '1h');
-   * ```
+   * Returns when the session of a token ends, however many times it was refreshed.
+   * Tokens minted before sessions were tracked start their session at issuance.
    */
-  generate: (payload: ShareableContext, expiresIn: string = defaultTransientTTL): string => {
-    return jwt.sign(payload, secret, { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] });
-  }
-});
+  const getSessionExpiry = (claims: TransientTokenClaims): number => (claims.sst ?? claims.iat) + maxSessionSeconds;
+
+  return {
+    getSessionExpiry,
+
+    /**
+     * Extracts the ShareableContext of decoded token claims, without the JWT registered claims
+     *
+     * @param claims - Decoded token claims
+     * @returns The ShareableContext the token was minted for
+     */
+    toShareableContext: ({ token, type, id, channels, allowedOrigins }: TransientTokenClaims): ShareableContext => ({
+      token,
+      type,
+      id,
+      ...(channels && { channels }),
+      ...(allowedOrigins && { allowedOrigins })
+    }),
+
+    /**
+     * Verifies and decodes a JWT token.
+     *
+     * The token is verified with the keyring key named by its `kid` header, if not retired.
+     * Tokens whose session is older than the maximum session lifetime are rejected, even if not expired yet,
+     * as well as tokens revoked by `jti` or through their shareable in the revocation store.
+     *
+     * @param token - JWT token string to verify
+     * @param options - Optional JWT verification options (e.g., audience, issuer)
+     * @returns Decoded claims from the token payload: the ShareableContext plus `exp`, `iat`, `jti` and `sst`
+     * @throws Error with message 'Invalid or expired token' if verification fails for any reason
+     *
+     * @example
+     * ```typescript
+     * try {
+     *   const context = await tokenService.verify(tokenString);
+     *   console.log('User ID:', context.userId);
+     * } catch (error) {
+     *   console.error('Token verification failed');
+     * }
+     * ```
+     */
+    verify: async (token: string, options?: jwt.VerifyOptions): Promise<TransientTokenClaims | null> => {
+      try {
+        const decoded = verifyToken(token, keyring, options) as TransientTokenClaims;
+        if (getSessionExpiry(decoded) <= nowInSeconds()) {
+          logger.warn('Transient token session exceeded its maximum lifetime');
+          return null;
+        }
+        if (await revocationStore.isRevoked(decoded)) {
+          logger.warn(`Rejected revoked transient token for ${decoded.type}:${decoded.id}`);
+          return null;
+        }
+        return decoded;
+      } catch (err: any) {
+        const msg = getErrorMessage(err);
+        logger.error(msg, err);
+        return null;
+      }
+    },
+
+    /**
+     * Verifies a token presented for refresh.
+     *
+     * Unlike `verify`, expired tokens are accepted within the refresh grace window, so clients that
+     * were idle (e.g., a backgrounded tab) can still refresh. The session lifetime is NOT checked here,
+     * use `getSessionExpiry` to tell an over-aged session apart from an invalid token. Revoked tokens are rejected.
+     *
+     * @param token - JWT token string to verify
+     * @returns Decoded claims, or null if the signature is invalid, the token expired beyond the grace window
+     *   or was revoked
+     *
+     * @example
+     * ```typescript
+     * const claims = await tokenService.verifyForRefresh(authToken);
+     * if (claims && tokenService.getSessionExpiry(claims) > Date.now() / 1000) {
+     *   const next = tokenService.generate(shareable, undefined, claims.sst ?? claims.iat);
+     * }
+     * ```
+     */
+    verifyForRefresh: async (token: string): Promise<TransientTokenClaims | null> => {
+      try {
+        const decoded = verifyToken(token, keyring, { ignoreExpiration: true }) as TransientTokenClaims;
+        if (decoded.exp + refreshGraceSeconds < nowInSeconds()) {
+          logger.warn('Transient token expired beyond the refresh grace window');
+          return null;
+        }
+        if (await revocationStore.isRevoked(decoded)) {
+          logger.warn(`Refused to refresh revoked transient token for ${decoded.type}:${decoded.id}`);
+          return null;
+        }
+        return decoded;
+      } catch (err: any) {
+        const msg = getErrorMessage(err);
+        logger.error(msg, err);
+        return null;
+      }
+    },
+
+    /**
+     * Generates a signed JWT token containing the provided payload.
+     * Every token gets a unique `jti` claim, so it can be revoked individually, and is signed with the
+     * keyring signing key, named in its `kid` header.
+     *
+     * @param payload - ShareableContext data to encode in the token
+     * @param expiresIn - Token expiration time as a string (e.g., '10m', '1h', '7d'). Defaults to '10m'
+     * @param sessionStartedAt - Start of the session in epoch seconds, carried over on refresh. Defaults to now
+     * @returns Signed JWT token string
+     *
+     * @example
+     * ```typescript
+     * // Generate a token that expires in 10 minutes (default)
+     * const shortToken = tokenService.generate({ userId: '123', role: 'user' });
+     *
+     * // Generate a token that expires in 1 hour
+     * const longToken = tokenService.generate({ userId: '123', role: 'admin' }, '1h');
+     * ```
+     */
+    generate: (
+      payload: ShareableContext,
+      expiresIn: string = defaultTransientTTL,
+      sessionStartedAt: number = nowInSeconds()
+    ): string => {
+      return signToken({ ...payload, sst: sessionStartedAt }, keyring.getSigningKey(), {
+        expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+        jwtid: randomUUID()
+      });
+    }
+  };
+};
 
 export type TransientTokenService = ReturnType<typeof CreateTransientTokenService>;
 export const tokenService = CreateTransientTokenService(
-  process.env.CLIENT_AUTH_SECRET || String(Math.random()),
-  process.env.DEFAULT_CLIENT_AUTH_TTL || '10m'
+  keyring,
+  config.clientAuth.defaultTtl,
+  config.clientAuth.refreshGraceSeconds,
+  config.clientAuth.maxSessionSeconds,
+  revocationStore
 );
@@ -4,7 +4,7 @@ import {
   DeleteConnectionCommand
 } from '@aws-sdk/client-apigatewaymanagementapi';
 import logger from '../utils/logger';
-import { isTrue } from '../utils/lib';
+import { config } from '../config';
 import { WebsocketResponse } from '../types/response-types';
 
 /**
@@ -354,6 +354,6 @@ export const CreateMockWebSocketClient = () => {
 };
 
 export type WebSocketClient = ReturnType<typeof CreateAWSWebSocketClient>;
-export const websocketClient: WebSocketClient = isTrue(process.env.IS_OFFLINE)
+export const websocketClient: WebSocketClient = config.isOffline
   ? CreateMockWebSocketClient()
   : CreateAWSWebSocketClient();
@@ -6,13 +6,79 @@ export type APIResponseType<T = unknown> = {
 };
 
 export type ChatMessage = {
+  id?: string; // Message ID, to give feedback on the message
   role: string;
   content: string;
 };
 
+/**
+ * Line of the NDJSON stream answered by `POST /webchat/{sessionId}/stream`
+ */
+export type WebChatStreamEvent =
+  | { type: 'delta'; delta: string } // Next chunk of the reply
+  | { type: 'message'; message: ChatMessage } // The complete reply, last line of a successful stream
+  | { type: 'error'; message: string; code?: string } // The reply failed midway
+  | { type: 'cancelled' }; // The reply was cancelled (`DELETE /webchat/{sessionId}/stream`)
+
 export type WebChatHistory = {
   sessionId: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // One page, in chronological order
+  hasMore?: boolean; // Whether more messages remain in the paging direction
+  nextCursor?: string | null; // Opaque cursor of the next page, in the paging direction
+  // State of the session, ignored when paging (see `getWebchatSession`)
+  status?: WebChatConversationStatus;
+  finishedAt?: string | null;
+  pendingTasks?: WebChatTask[];
+  unreadCount?: number; // Assistant messages the user has not seen yet
+  metadata?: Record<string, unknown>; // Free-form session data set by the backend, e.g. the agent name
+};
+
+/**
+ * Agent task still running in a session, e.g. a tool call or a reply being generated
+ */
+export type WebChatTask = {
+  id: string;
+  name: string;
+  status: string; // Backend task status, e.g. "running" or "waiting"
+  createdAt?: string;
+};
+
+/**
+ * Query string of `GET /webchat/history/{sessionId}`, selecting one page of messages.
+ * Pages go backwards from the latest messages, or forwards from the `after` cursor.
+ */
+export type WebChatHistoryQuery = {
+  limit: number; // Maximum number of messages in the page
+  before?: string; // Cursor: messages older than it
+  after?: string; // Cursor: messages newer than it
+  roles?: string; // Comma-separated roles: only messages of these roles
+};
+
+export type WebChatConversationStatus = 'open' | 'finished';
+
+/**
+ * State of a webchat conversation, answered by `POST /webchat/{sessionId}/finish` and `/reopen`
+ */
+export type WebChatConversation = {
+  sessionId: string;
+  status: WebChatConversationStatus;
+  finishedAt?: string | null; // ISO date the conversation was finished, null while open
+};
+
+/**
+ * Body of `POST /webchat/{sessionId}/feedback`: a thumb or a rating, on one message or on the whole conversation
+ */
+export type WebChatFeedbackDTO = {
+  messageId?: string; // Message the feedback is about, omitted for the whole conversation
+  thumbs?: 'up' | 'down';
+  rating?: number; // From 1 to 5
+  comment?: string;
+};
+
+export type WebChatFeedback = WebChatFeedbackDTO & {
+  id: string;
+  sessionId: string;
+  createdAt: string;
 };
 
 export type FileCreateDTO = {
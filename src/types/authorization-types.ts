@@ -0,0 +1,18 @@
+/**
+ * Rule granting a capability:
+ * - `true` / `false`: always granted / denied
+ * - `{ channels }`: granted when the shareable has at least one of the channels
+ */
+export type CapabilityRule = boolean | { channels: string[] };
+
+/**
+ * Capabilities granted to one shareable type, keyed by capability (e.g., "chat:write")
+ * The `*` key applies to capabilities not listed.
+ */
+export type CapabilityPolicy = Record<string, CapabilityRule>;
+
+/**
+ * Capability policies keyed by shareable type (e.g., "webchat")
+ * The `*` key applies to shareable types not listed.
+ */
+export type AuthorizationPolicies = Record<string, CapabilityPolicy>;
@@ -0,0 +1,106 @@
+import { AuthorizationPolicies } from './authorization-types';
+import { KeyConfig } from './keyring-types';
+
+/**
+ * Core API (AgenticFlo backend) settings
+ * `baseUrl` and `backplaneToken` are only required in `prod`: elsewhere the HTTP client is created by the first core API
+ * request, which fails when they are missing (routes not calling the core API keep working).
+ */
+export type CoreApiConfig = {
+  baseUrl?: string; // AGENTICFLO_BASE_URL
+  backplaneToken?: string; // AGENTICFLO_BACKPLANE_TOKEN, also authenticates internal routes
+  requestTimeoutMs: number; // AGENTICFLO_REQUEST_TIMEOUT
+  streamIdleTimeoutMs: number; // AGENTICFLO_STREAM_IDLE_TIMEOUT, longest wait between two events of a streamed reply
+  tlsInsecure: boolean; // AGENTICFLO_TLS_INSECURE, only honored offline
+  streaming: boolean; // AGENTICFLO_STREAMING, stream webchat replies to WebSocket clients
+};
+
+/**
+ * Circuit breaker settings, applied to each core API route
+ */
+export type CircuitBreakerConfig = {
+  failureThreshold: number; // CIRCUIT_BREAKER_FAILURE_THRESHOLD, consecutive failures opening the circuit. 0 disables it
+  resetTimeoutSeconds: number; // CIRCUIT_BREAKER_RESET_SECONDS, before a probe request is let through
+};
+
+/**
+ * Transient client token settings
+ */
+export type ClientAuthConfig = {
+  keys: KeyConfig[]; // CLIENT_AUTH_KEYS
+  legacySecret?: string; // CLIENT_AUTH_SECRET, loaded by the keyring as key `default`
+  signingKid?: string; // CLIENT_AUTH_SIGNING_KID
+  defaultTtl: string; // DEFAULT_CLIENT_AUTH_TTL, a duration with unit, e.g. "10m" or "1h"
+  refreshGraceSeconds: number; // CLIENT_AUTH_REFRESH_GRACE_SECONDS
+  maxSessionSeconds: number; // CLIENT_AUTH_MAX_SESSION_SECONDS
+};
+
+/**
+ * WebSocket API settings
+ */
+export type WebSocketConfig = {
+  connectionsTable: string; // WS_CONNECTIONS_TABLE
+  connectionsTtlSeconds: number; // WS_CONNECTIONS_TTL, declared in hours
+  connectAuthRequired: boolean; // WS_CONNECT_AUTH_REQUIRED
+  authDeadlineSeconds: number; // WS_AUTH_DEADLINE_SECONDS
+  apiEndpoint?: string; // WEBSOCKET_API_ENDPOINT, or the serverless-offline endpoint
+};
+
+/**
+ * Shareable configuration cache settings
+ */
+export type ConfigurationCacheConfig = {
+  ttlSeconds: number; // CONFIG_CACHE_TTL_SECONDS, 0 disables the cache
+  negativeTtlSeconds: number; // CONFIG_CACHE_NEGATIVE_TTL_SECONDS, for invalid tokens
+  maxEntries: number; // CONFIG_CACHE_MAX_ENTRIES, per Lambda instance
+  shared: boolean; // CONFIG_CACHE_SHARED, also cache in DynamoDB across instances
+  table: string; // CONFIG_CACHE_TABLE
+};
+
+/**
+ * Idempotency key settings
+ */
+export type IdempotencyConfig = {
+  table: string; // IDEMPOTENCY_TABLE
+  windowSeconds: number; // IDEMPOTENCY_WINDOW_SECONDS, how long the first result is replayed
+};
+
+/**
+ * Session event log settings, followed by Server-Sent Events clients
+ */
+export type SessionEventsConfig = {
+  table: string; // SESSION_EVENTS_TABLE
+  ttlSeconds: number; // SESSION_EVENTS_TTL_SECONDS, how long events can be resumed with `Last-Event-ID`
+  sseMaxDurationSeconds: number; // SSE_MAX_DURATION_SECONDS, before streamed responses end and clients reconnect
+  ssePollIntervalMs: number; // SSE_POLL_INTERVAL_MS, how often the log is read for new events
+};
+
+/**
+ * Application configuration, parsed and validated once from the environment (see `src/config.ts`)
+ */
+export type AppConfig = {
+  stage: string; // STAGE
+  isOffline: boolean; // IS_OFFLINE
+  logLevel: string; // LOG_LEVEL
+  httpBasePath: string; // HTTP_BASE_PATH
+  offline: {
+    httpPort: number; // OFFLINE_HTTP_PORT
+    wsPort: number; // OFFLINE_WS_PORT
+  };
+  coreApi: CoreApiConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  clientAuth: ClientAuthConfig;
+  websocket: WebSocketConfig;
+  configurationCache: ConfigurationCacheConfig;
+  idempotency: IdempotencyConfig;
+  sessionEvents: SessionEventsConfig;
+  revocations: {
+    table: string; // TOKEN_REVOCATIONS_TABLE
+  };
+  authorization: {
+    policies?: AuthorizationPolicies; // SHAREABLE_POLICIES, every capability is granted if absent
+  };
+  slack: {
+    webhookUrl?: string; // SLACK_WEBHOOK_URL
+  };
+};
@@ -0,0 +1,12 @@
+import { ShareableContext } from './shareable-context';
+
+/**
+ * Shareable configuration cache record, kept per Lambda instance and optionally in DynamoDB
+ */
+export type ConfigurationCacheRecord = {
+  cacheKey: string; // "token:<sha256 of the token>" for a lookup, "shareable:<type>:<id>" for an invalidation
+  shareableContext?: ShareableContext; // Absent for invalid tokens (negative entries) and invalidations
+  errorMessage?: string; // Error returned by the backend for an invalid token, replayed on cache hits
+  cachedAt: number; // Timestamp (seconds). For invalidations, lookups cached up to this time are stale
+  ttl: number; // Expiry (seconds), also used for DynamoDB auto-cleanup
+};
@@ -1,6 +1,7 @@
 import { RequestEvent } from './request-types';
 import { HandlerResponse } from './response-types';
 
-export type HandlerFn = (event: RequestEvent) => Promise<HandlerResponse>;
+/** Route handler: handlers with nothing to await (e.g. returning Server-Sent Events to follow) answer directly */
+export type HandlerFn = (event: RequestEvent) => Promise<HandlerResponse> | HandlerResponse;
 export type NextFn = (event: RequestEvent) => Promise<HandlerResponse>;
 export type Middleware = (event: RequestEvent, next: NextFn) => Promise<HandlerResponse>;
@@ -0,0 +1,13 @@
+import { HandlerResponse } from './response-types';
+
+/**
+ * Idempotency record stored in the idempotency store, one per client-supplied idempotency key
+ */
+export type IdempotencyRecord = {
+  idempotencyKey: string; // "<shareable type>:<shareable id>:<command>:<client key>"
+  status: 'in-progress' | 'completed'; // In progress until the first request completes, then replayed
+  fingerprint: string; // SHA-256 of the request body: a key cannot be reused for another request
+  response?: HandlerResponse; // Result of the first request, once completed
+  createdAt: number; // Timestamp (seconds)
+  ttl: number; // TTL for DynamoDB auto-cleanup: short while in progress, the idempotency window once completed
+};
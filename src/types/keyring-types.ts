@@ -0,0 +1,37 @@
+import type { KeyObject } from 'node:crypto';
+
+/**
+ * Algorithms transient tokens can be signed with
+ */
+export type SigningAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+
+/**
+ * Lifecycle of a key in the keyring:
+ * - active: can sign (when selected as signing key) and verify
+ * - verify: only verifies, e.g. a previous key kept until its tokens expire
+ * - retired: tokens signed with it are rejected
+ */
+export type KeyStatus = 'active' | 'verify' | 'retired';
+
+/**
+ * Key declaration, as provided in `CLIENT_AUTH_KEYS`
+ */
+export type KeyConfig = {
+  kid: string; // Key ID, sent in the `kid` header of every token signed with the key
+  alg: SigningAlgorithm;
+  status?: KeyStatus; // Defaults to 'active'
+  secret?: string; // HS256 only
+  privateKey?: string; // PEM, asymmetric algorithms only. Optional on verify-only keys
+  publicKey?: string; // PEM, asymmetric algorithms only. Derived from privateKey when omitted
+};
+
+/**
+ * Key loaded in the keyring, ready to sign or verify
+ */
+export type KeyringKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  status: KeyStatus;
+  signingKey?: KeyObject; // Secret or private key, absent on verify-only asymmetric keys
+  verificationKey: KeyObject; // Secret or public key
+};
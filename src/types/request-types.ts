@@ -1,5 +1,7 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyWebsocketEventV2 } from 'aws-lambda';
+import { WebChatFeedbackDTO } from './agentifclo-types';
 import { ShareableContext } from './shareable-context';
+import { ConnectionRecord } from './websocket-types';
 
 export type TargetResource = {
   method: string;
@@ -11,13 +13,18 @@ export type RequestEvent<T = unknown> = {
   httpContext?: APIGatewayProxyEventV2;
   websocketContext?: APIGatewayProxyWebsocketEventV2;
   shareableContext?: ShareableContext;
+  connection?: ConnectionRecord; // WebSocket only: the connection the message was received on
   parsedBody: T;
   targetResource: TargetResource;
+  idempotencyKey?: string; // `Idempotency-Key` header (HTTP) or `idempotencyKey` field (WebSocket)
+  requestId?: string; // WebSocket only: client-supplied request ID, to echo on frames sent by handlers
+  streaming?: boolean; // HTTP only: whether the response is streamed (Lambda response streaming), or buffered
 };
 
 export type WithShareable<T = unknown> = RequestEvent<T> & { shareableContext: ShareableContext };
 export type WithHttp<T = unknown> = RequestEvent<T> & { httpContext: APIGatewayProxyEventV2 };
 export type WithWebSocket<T = unknown> = RequestEvent<T> & { websocketContext: APIGatewayProxyWebsocketEventV2 };
+export type WithConnection<T = unknown> = WithWebSocket<T> & { connection: ConnectionRecord };
 
 export type WebchatRequestPayload = {
   sessionId: string;
@@ -28,11 +35,53 @@ export type WebchatMessageRequest = WebchatRequestPayload & {
   message: string;
 };
 
+export type WebchatHistoryRequest = WebchatRequestPayload & {
+  limit?: number; // Messages per page, defaults to `DEFAULT_HISTORY_PAGE_SIZE`
+  before?: string; // Cursor (`nextCursor`): messages older than it. Defaults to the latest messages
+  after?: string; // Cursor (`nextCursor`): messages newer than it, to page forwards
+  roles?: string[]; // Only messages of these roles, e.g. ["user", "assistant"]
+};
+
+export type WebchatInitRequest = WebchatRequestPayload & {
+  limit?: number; // Messages in the history page, defaults to `DEFAULT_HISTORY_PAGE_SIZE`
+};
+
+export type WebchatFeedbackRequest = WebchatRequestPayload & WebChatFeedbackDTO;
+
+export type WebchatStreamQuery = {
+  sessionId: string;
+  lastEventId?: string; // Fallback for clients that cannot send `Last-Event-ID`
+};
+
 export type ResourceRequest = {
   token: string;
 };
 
+export type RefreshTokenRequest = {
+  authToken: string; // Transient token previously returned by `resource/get` or `auth/refresh`
+};
+
+export type RevokeRequest = {
+  jti?: string; // Revokes a single transient token
+  shareableType?: string; // With shareableId, revokes every transient token of a shareable
+  shareableId?: string;
+};
+
+export type InvalidateConfigurationRequest = {
+  token?: string; // Drops the cached configuration of a shareable token
+  shareableType?: string; // With shareableId, drops the cached configuration of a shareable, whatever its token
+  shareableId?: string;
+};
+
+export type AuthenticateRequest = {
+  token?: string; // Shareable token, as sent to `resource/get`
+  authToken?: string; // Or the transient JWT returned by `resource/get` / `auth/refresh`
+  sessionId?: string;
+};
+
 export type WebSocketMessage = {
   command: string; // Format: "resource:action" (e.g., "webchat:send")
+  requestId?: string; // Optional client-supplied ID, echoed on the response frame for correlation
+  idempotencyKey?: string; // Optional client-supplied key, replays the first result of a resent command
   [key: string]: unknown;
 };
@@ -1,14 +1,58 @@
+import { ChatMessage, WebChatConversationStatus, WebChatTask } from './agentifclo-types';
+
 export type HandlerResponse<T = unknown> = {
   result: T;
   statusCode?: number;
+  raw?: boolean; // HTTP only: send `result` as the response body as-is, without the success envelope
+  events?: AsyncIterable<ServerSentEvent>; // HTTP only: send these Server-Sent Events instead of `result`
+};
+
+export type ServerSentEvent = {
+  id?: string; // Event ID, sent back by clients as `Last-Event-ID` when they reconnect
+  event?: string; // Event name, e.g. "webchat:delta"
+  data?: string; // Event data, usually JSON
+  retry?: number; // Delay (ms) before clients reconnect once the response ends
+  comment?: string; // Ignored by clients, e.g. keep-alive
+};
+
+export type WebchatDelta = {
+  sessionId: string;
+  index: number; // Position of the chunk in the reply, from 0 (of the first one, when session events merge chunks)
+  delta: string; // Text appended to the reply
+};
+
+export type WebchatHistoryPage = {
+  sessionId: string;
+  messages: ChatMessage[]; // In chronological order
+  hasMore: boolean; // Whether more messages remain in the paging direction
+  nextCursor: string | null; // Cursor to send as `before` (or `after`) for the next page, null without more messages
+};
+
+export type WebchatInitialization = {
+  sessionId: string;
+  status: WebChatConversationStatus; // Defaults to "open" when the backend does not tell
+  finishedAt: string | null;
+  pendingTasks: WebChatTask[]; // Agent tasks still running, e.g. a reply being generated
+  unreadCount: number; // Assistant messages the user has not seen yet
+  metadata: Record<string, unknown>; // Free-form session data set by the backend
+  history: WebchatHistoryPage; // Latest messages, with the cursor of older ones
+};
+
+export type FieldError = {
+  field: string; // Dotted path to the offending field (e.g., "file.size")
+  message: string;
 };
 
 export type PublicError = {
   message: string;
   code?: string;
+  fields?: FieldError[]; // Field-level problems, present on validation failures
+  retryAfterSeconds?: number; // When the request can be retried, e.g. while the backend is unavailable
 };
 
 export type WebsocketResponse<T = unknown> = {
+  requestId?: string; // Echo of the client-supplied WebSocketMessage.requestId
+  correlationId?: string; // Correlation ID of the invocation, also present in logs and core API calls
   success: boolean;
   message: string;
   result?: T;
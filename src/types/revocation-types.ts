@@ -0,0 +1,8 @@
+/**
+ * Revocation record stored in the revocation store
+ */
+export type RevocationRecord = {
+  revocationKey: string; // "jti:<jti>" for a single token, "shareable:<type>:<id>" for every token of a shareable
+  revokedAt: number; // Timestamp (seconds). Shareable revocations only apply to tokens issued up to this time
+  ttl: number; // TTL for DynamoDB auto-cleanup, once every token it may apply to is expired
+};
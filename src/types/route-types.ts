@@ -0,0 +1,29 @@
+import { HandlerFn, Middleware } from './handler-types';
+import { JsonSchema } from './schema-types';
+
+/**
+ * Transports a route can be exposed on
+ */
+export type Transport = 'http' | 'ws';
+
+/**
+ * Declarative route definition shared by the HTTP and WebSocket routers
+ */
+export type RouteDefinition = {
+  resource: string; // First path segment / command prefix (e.g., "webchat")
+  action?: string; // Second path segment / command suffix. Omitted for single-word WS commands like "authenticate"
+  method?: string; // HTTP method, defaults to POST. Ignored for WebSocket
+  description?: string; // Human readable summary, published in generated API documents
+  handler: HandlerFn;
+  auth: boolean; // Whether the route requires an authenticated shareable context
+  capability?: string; // Capability the shareable must grant (see `SHAREABLE_POLICIES`). Only checked on `auth` routes
+  bodySchema?: JsonSchema; // Validated against the request body before the handler runs
+  idempotent?: boolean; // Replays the first result of requests resent with an idempotency key. Only on `auth` routes
+  responseSchema?: JsonSchema; // Shape of `result` in successful responses, used for API documents only
+  deltaSchema?: JsonSchema; // WebSocket only: shape of the `<resource>:delta` frames streamed before the result
+  querySchema?: JsonSchema; // HTTP only: query string parameters, used for API documents only
+  serverSentEvents?: boolean; // HTTP only: answers with Server-Sent Events (`events` of the handler response)
+  guards?: Middleware[]; // Authenticate routes without `auth` (e.g. with the backplane token), before body validation
+  middlewares?: Middleware[]; // Run on every transport, after authentication and body validation
+  transports: Transport[];
+};
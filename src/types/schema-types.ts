@@ -0,0 +1,18 @@
+/**
+ * Subset of JSON Schema used to describe and validate request/response bodies
+ */
+export type JsonSchema = {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  title?: string; // Named schemas are published as reusable components in generated API documents
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  nullable?: boolean;
+};
@@ -0,0 +1,11 @@
+/**
+ * Event of a webchat session, as stored in the session event log and replayed to SSE clients
+ */
+export type SessionEvent = {
+  streamKey: string; // "<shareable type>:<shareable id>:<session id>"
+  seq: number; // Position in the session log, increasing: the SSE event ID, resumed from with `Last-Event-ID`
+  type: string; // SSE event name, the command of the matching WebSocket frame (e.g. "webchat:delta")
+  data: unknown; // SSE event data, the `result` (or `error`) of the matching WebSocket frame
+  createdAt: number; // Timestamp (seconds)
+  ttl: number; // TTL for DynamoDB auto-cleanup: how long events can be resumed
+};
@@ -3,4 +3,15 @@ export type ShareableContext = {
   type: string;
   id: string;
   channels?: string[];
+  allowedOrigins?: string[]; // Origins allowed to embed the shareable (e.g. "https://*.example.com"). Any if absent
+};
+
+/**
+ * Claims of a transient client JWT, as decoded by `tokenService`
+ */
+export type TransientTokenClaims = ShareableContext & {
+  jti?: string; // Token ID, used to revoke the token. Absent from tokens minted before revocation existed
+  iat: number; // Issued at (epoch seconds)
+  exp: number; // Expires at (epoch seconds)
+  sst?: number; // Session start (epoch seconds), kept across refreshes. Absent from tokens minted before refresh existed
 };
@@ -8,6 +8,10 @@ export type ConnectionRecord = {
   authenticated: boolean; // Whether connection has been authenticated
   shareableContext?: ShareableContext; // Only present after authentication
   sessionId?: string; // Transient session ID
+  origin?: string; // Origin header of the $connect handshake
+  authExpiresAt?: number; // Timestamp (seconds) after which commands are refused, when authenticated with a transient JWT
+  authIssuedAt?: number; // Issue time (seconds) of that JWT, checked against shareable revocations
+  authJti?: string; // ID of that JWT, checked against token revocations
   connectedAt: number; // Timestamp
   ttl: number; // TTL for DynamoDB auto-cleanup (24 hours default)
 };
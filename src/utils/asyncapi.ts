@@ -0,0 +1,218 @@
+import pkg from '../../package.json';
+import { WebsocketResponseSchema } from '../schemas/response-schemas';
+import { RouteDefinition } from '../types/route-types';
+import { JsonSchema } from '../types/schema-types';
+import { getCommand } from './lib';
+import { DocumentObject, toDocumentSchema } from './openapi';
+
+/** Single channel: every command and frame travels over the same WebSocket connection */
+const CHANNEL = 'connection';
+
+/**
+ * Converts a command name into an AsyncAPI identifier (e.g., "webchat:get-history" => "webchatGetHistory").
+ *
+ * @internal
+ */
+function toIdentifier(command: string): string {
+  return command.replace(/[:-](\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Builds the client-to-server message of a command: `{ command: "<name>", requestId?, idempotencyKey?, ...body }`.
+ *
+ * @internal
+ */
+function buildRequestMessage(route: RouteDefinition, components: Record<string, DocumentObject>): DocumentObject {
+  const command = getCommand(route);
+  const envelope = {
+    type: 'object',
+    properties: {
+      command: { const: command },
+      requestId: {
+        type: 'string',
+        description: 'Optional ID echoed on the reply frame, to correlate concurrent commands'
+      },
+      ...(route.auth &&
+        route.idempotent && {
+          idempotencyKey: {
+            type: 'string',
+            minLength: 1,
+            maxLength: 255,
+            description: 'Optional key: resending the command with the same key replays its first result'
+          }
+        })
+    },
+    required: ['command']
+  };
+
+  // The envelope fields are merged into the body schema (inlined, not a `$ref`) rather than combined with `allOf`:
+  // bodies declaring `additionalProperties: false` would otherwise reject the `command` of every frame
+  const body = route.bodySchema && toDocumentSchema({ ...route.bodySchema, title: undefined }, components);
+  const payload = body
+    ? {
+        ...body,
+        properties: { ...envelope.properties, ...(body.properties as DocumentObject | undefined) },
+        required: [...envelope.required, ...((body.required as string[] | undefined) || [])]
+      }
+    : envelope;
+
+  return {
+    name: command,
+    title: `${command} command`,
+    ...(route.description && { summary: route.description }),
+    payload
+  };
+}
+
+/**
+ * Builds the successful server-to-client frame of a command, as sent by
+ * `websocketClient.sendToConnection(endpoint, connectionId, command, wsSuccess(result))`.
+ *
+ * @internal
+ */
+function buildSuccessMessage(route: RouteDefinition, components: Record<string, DocumentObject>): DocumentObject {
+  const command = getCommand(route);
+
+  return {
+    name: `${command} result`,
+    title: `${command} result`,
+    payload: {
+      allOf: [
+        toDocumentSchema(WebsocketResponseSchema, components),
+        {
+          type: 'object',
+          properties: {
+            command: { const: command },
+            success: { const: true },
+            ...(route.responseSchema && { result: toDocumentSchema(route.responseSchema, components) })
+          },
+          required: ['result']
+        }
+      ]
+    }
+  };
+}
+
+/**
+ * Builds the frames a command streams before its result, as sent under the `<resource>:delta` command.
+ *
+ * @internal
+ */
+function buildDeltaMessage(
+  route: RouteDefinition,
+  deltaSchema: JsonSchema,
+  components: Record<string, DocumentObject>
+): DocumentObject {
+  const command = `${route.resource}:delta`;
+
+  return {
+    name: command,
+    title: `${getCommand(route)} delta`,
+    summary: `Streamed before the \`${getCommand(route)}\` result, sharing its \`requestId\``,
+    payload: {
+      allOf: [
+        toDocumentSchema(WebsocketResponseSchema, components),
+        {
+          type: 'object',
+          properties: {
+            command: { const: command },
+            success: { const: true },
+            result: toDocumentSchema(deltaSchema, components)
+          },
+          required: ['result']
+        }
+      ]
+    }
+  };
+}
+
+/**
+ * Generates an AsyncAPI 3.0 document describing the WebSocket command protocol.
+ *
+ * Every WebSocket route becomes an operation the server receives on the connection, with a reply
+ * that is either its success frame or the shared failure frame built by `wsFailure`.
+ * Routes declared with `auth: true` are documented as requiring the `authenticate` handshake.
+ *
+ * @param routes - WebSocket routes from the route registry
+ * @returns The AsyncAPI document as a plain JSON object
+ *
+ * @example
+ * ```typescript
+ * const document = buildAsyncApiDocument(getRoutesFor('ws'));
+ * // => { asyncapi: '3.0.0', operations: { webchatSend: { action: 'receive', reply: {...} } }, ... }
+ * ```
+ */
+export function buildAsyncApiDocument(routes: RouteDefinition[]): DocumentObject {
+  const schemas: Record<string, DocumentObject> = {};
+  const messages: Record<string, DocumentObject> = {};
+  const operations: Record<string, DocumentObject> = {};
+  const messageRef = (id: string) => ({ $ref: `#/channels/${CHANNEL}/messages/${id}` });
+
+  messages.failure = {
+    name: 'failure',
+    title: 'Failure frame',
+    summary: 'Sent when a command fails, including unknown commands and validation errors',
+    payload: {
+      allOf: [
+        toDocumentSchema(WebsocketResponseSchema, schemas),
+        { type: 'object', properties: { success: { const: false } }, required: ['error'] }
+      ]
+    }
+  };
+
+  for (const route of routes) {
+    const id = toIdentifier(getCommand(route));
+    messages[`${id}Request`] = buildRequestMessage(route, schemas);
+    messages[`${id}Result`] = buildSuccessMessage(route, schemas);
+    if (route.deltaSchema) {
+      messages[`${id}Delta`] = buildDeltaMessage(route, route.deltaSchema, schemas);
+    }
+
+    operations[id] = {
+      action: 'receive',
+      channel: { $ref: `#/channels/${CHANNEL}` },
+      ...(route.description && { summary: route.description }),
+      ...(route.auth && {
+        description: [
+          'Requires the connection to be authenticated with the `authenticate` command first.',
+          ...(route.capability ? [`The shareable must grant the \`${route.capability}\` capability.`] : [])
+        ].join(' ')
+      }),
+      tags: [{ name: route.resource }],
+      messages: [messageRef(`${id}Request`)],
+      reply: {
+        channel: { $ref: `#/channels/${CHANNEL}` },
+        messages: [
+          ...(route.deltaSchema ? [messageRef(`${id}Delta`)] : []),
+          messageRef(`${id}Result`),
+          messageRef('failure')
+        ]
+      }
+    };
+  }
+
+  return {
+    asyncapi: '3.0.0',
+    info: {
+      title: 'Agentic Shareables WebSocket API',
+      version: pkg.version,
+      description: [
+        'Clients send JSON commands `{ command: "resource:action", ...params }` and receive one frame per command.',
+        'Connections start unauthenticated: send `{ command: "authenticate", token }` before protected commands.'
+      ].join('\n')
+    },
+    defaultContentType: 'application/json',
+    channels: {
+      [CHANNEL]: {
+        address: '/',
+        title: 'WebSocket connection',
+        messages: Object.fromEntries(Object.keys(messages).map((id) => [id, { $ref: `#/components/messages/${id}` }]))
+      }
+    },
+    operations,
+    components: {
+      schemas,
+      messages
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { APIGatewayProxyEventV2, APIGatewayProxyWebsocketEventV2 } from 'aws-lambda';
+import { getHeader, hasKey } from './lib';
+
+/** Header used to receive, forward and return correlation IDs */
+export const CORRELATION_ID_HEADER = 'X-Request-Id';
+
+/** Client-supplied IDs must be short and log-safe, otherwise the API Gateway ID is used */
+const VALID_CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+/** Holds the correlation ID of the invocation currently being processed */
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Runs a function with a correlation ID bound to everything it does asynchronously:
+ * log lines, core API calls, response headers and WebSocket frames.
+ *
+ * @param correlationId - The correlation ID of the invocation
+ * @param fn - The invocation to run
+ * @returns The result of `fn`
+ *
+ * @example
+ * ```typescript
+ * export const handler = (event) => withCorrelationId(resolveHttpCorrelationId(event), () => dispatch(event));
+ * ```
+ */
+export function withCorrelationId<T>(correlationId: string, fn: () => Promise<T>): Promise<T> {
+  return storage.run(correlationId, fn);
+}
+
+/**
+ * Returns the correlation ID of the current invocation.
+ *
+ * @returns The correlation ID, or `undefined` outside of `withCorrelationId`
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Returns the client-supplied `X-Request-Id` header value when it is safe to reuse.
+ *
+ * @internal
+ */
+function fromHeader(headers: Record<string, string | undefined> | undefined): string | undefined {
+  const value = headers ? getHeader(headers, CORRELATION_ID_HEADER)?.trim() : undefined;
+  return value && VALID_CORRELATION_ID.test(value) ? value : undefined;
+}
+
+/**
+ * Resolves the correlation ID of an HTTP request.
+ * Prefers the client `X-Request-Id` header, falling back to the API Gateway request ID.
+ *
+ * @param event - API Gateway HTTP event (v2 payload format)
+ * @returns The correlation ID for this request
+ */
+export function resolveHttpCorrelationId(event: APIGatewayProxyEventV2): string {
+  return fromHeader(event.headers) || event.requestContext?.requestId;
+}
+
+/**
+ * Resolves the correlation ID of a WebSocket event.
+ * Prefers the `X-Request-Id` header (only sent on `$connect`), then the API Gateway request ID,
+ * then the connection ID.
+ *
+ * @param event - API Gateway WebSocket event
+ * @returns The correlation ID for this event
+ */
+export function resolveWebSocketCorrelationId(event: APIGatewayProxyWebsocketEventV2): string {
+  // $connect events carry the handshake headers even though the event type does not declare them
+  const headers = hasKey(event, 'headers') ? (event.headers as Record<string, string | undefined>) : undefined;
+  const { requestId, connectionId } = event.requestContext;
+  return fromHeader(headers) || requestId || connectionId;
+}
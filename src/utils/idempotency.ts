@@ -0,0 +1,35 @@
+import { createHash } from 'node:crypto';
+import { ShareableContext } from '../types/shareable-context';
+
+/**
+ * Header carrying the idempotency key of an HTTP request (`idempotencyKey` field of WebSocket messages)
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * How long a request holds its idempotency key before completing: the Lambda timeout (see `serverless.yml`).
+ * Keys of requests that never complete (e.g. Lambda crash) are released after it.
+ */
+export const IN_PROGRESS_TTL_SECONDS = 60;
+
+/**
+ * Builds the key of an idempotency record: client keys are scoped to the shareable and the command
+ *
+ * @param shareable - The authenticated shareable
+ * @param command - The command, e.g. "webchat:send"
+ * @param clientKey - The idempotency key sent by the client
+ * @returns The idempotency record key
+ */
+export const scopedIdempotencyKey = (shareable: ShareableContext, command: string, clientKey: string): string =>
+  `${shareable.type}:${shareable.id}:${command}:${clientKey}`;
+
+/**
+ * Fingerprints a request body, so a key reused for a different request is detected
+ *
+ * @param body - The parsed request body
+ * @returns The SHA-256 of the body, as JSON
+ */
+export const fingerprintRequest = (body: unknown): string =>
+  createHash('sha256')
+    .update(JSON.stringify(body ?? null))
+    .digest('base64url');
@@ -0,0 +1,86 @@
+import { sign as cryptoSign, verify as cryptoVerify } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import type { Keyring } from '../services/keyring';
+import { KeyringKey } from '../types/keyring-types';
+
+/**
+ * Encodes a JWT segment
+ *
+ * @internal
+ */
+const toBase64Url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+/** Header of an unsigned token, used to let `jsonwebtoken` validate claims of EdDSA tokens */
+const UNSIGNED_HEADER = toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+
+/**
+ * Signs a JWT with a keyring key, setting its `kid` header.
+ *
+ * `jsonwebtoken` does not support EdDSA: for Ed25519 keys it only builds the claims (`iat`, `exp`,
+ * `jti`...) of an unsigned token, which is then signed with `node:crypto`.
+ *
+ * @param payload - Claims to encode in the token
+ * @param key - The keyring signing key
+ * @param options - `jsonwebtoken` sign options (e.g., `expiresIn`, `jwtid`). `algorithm` and `keyid` come from the key
+ * @returns Signed JWT token string
+ *
+ * @example
+ * ```typescript
+ * const token = signToken({ id: '123' }, keyring.getSigningKey(), { expiresIn: '10m' });
+ * ```
+ */
+export function signToken(payload: object, key: KeyringKey, options: jwt.SignOptions = {}): string {
+  if (!key.signingKey) {
+    throw new Error(`Signing key '${key.kid}' has no private material`);
+  }
+
+  if (key.alg !== 'EdDSA') {
+    return jwt.sign(payload, key.signingKey, { ...options, algorithm: key.alg, keyid: key.kid });
+  }
+
+  const [, claims] = jwt.sign(payload, '', { ...options, algorithm: 'none' }).split('.');
+  const signingInput = `${toBase64Url(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid: key.kid }))}.${claims}`;
+  return `${signingInput}.${toBase64Url(cryptoSign(null, Buffer.from(signingInput), key.signingKey))}`;
+}
+
+/**
+ * Verifies a JWT against the keyring key named by its `kid` header.
+ *
+ * The token algorithm must match the key algorithm, so a public key can never be used as an HMAC secret.
+ * EdDSA signatures are checked with `node:crypto`, then the claims are validated by `jsonwebtoken`
+ * exactly as for other algorithms.
+ *
+ * @param token - JWT token string to verify
+ * @param keyring - The keyring to resolve the key from
+ * @param options - `jsonwebtoken` verify options (e.g., `ignoreExpiration`). `algorithms` come from the key
+ * @returns The decoded claims
+ * @throws {jwt.JsonWebTokenError} If the token is malformed, its key unknown or retired, or its signature invalid
+ * @throws {jwt.TokenExpiredError} If the token is expired
+ */
+export function verifyToken(token: string, keyring: Keyring, options: jwt.VerifyOptions = {}): jwt.JwtPayload {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const key = keyring.getVerificationKey(decoded.header.kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError(`unknown or retired signing key '${decoded.header.kid}'`);
+  }
+
+  if (key.alg !== 'EdDSA') {
+    return jwt.verify(token, key.verificationKey, { ...options, algorithms: [key.alg] }) as jwt.JwtPayload;
+  }
+
+  const [header, claims, signature = ''] = token.split('.');
+  if (decoded.header.alg !== 'EdDSA') {
+    throw new jwt.JsonWebTokenError('invalid algorithm');
+  }
+  if (
+    !cryptoVerify(null, Buffer.from(`${header}.${claims}`), key.verificationKey, Buffer.from(signature, 'base64url'))
+  ) {
+    throw new jwt.JsonWebTokenError('invalid signature');
+  }
+
+  return jwt.verify(`${UNSIGNED_HEADER}.${claims}.`, '', { ...options, algorithms: ['none'] }) as jwt.JwtPayload;
+}
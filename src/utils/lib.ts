@@ -1,5 +1,10 @@
 import { APIGatewayProxyEventV2 } from 'aws-lambda';
 import { RequestEvent } from '../types/request-types';
+import { RouteDefinition } from '../types/route-types';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+
+/** Default HTTP method for routes that do not declare one */
+const DEFAULT_HTTP_METHOD = 'POST';
 
 export function isTrue(mystery: string | undefined): boolean {
   if (!mystery) {
@@ -166,6 +171,27 @@ export function hasKey(mystery: unknown, key: string): mystery is Record<string,
   return typeof mystery === 'object' && mystery !== null && key in mystery;
 }
 
+/**
+ * Returns a shallow copy of an object without the given keys.
+ *
+ * @param object - The object to copy
+ * @param keys - Keys left out of the copy
+ * @returns The copy, without these keys
+ *
+ * @example
+ * ```typescript
+ * omit({ command: 'webchat:send', message: 'Hi' }, ['command']);
+ * // => { message: 'Hi' }
+ * ```
+ */
+export function omit<T extends object, K extends keyof T>(object: T, keys: K[]): Omit<T, K> {
+  const copy = { ...object };
+  for (const key of keys) {
+    delete copy[key];
+  }
+  return copy;
+}
+
 /**
  * Parses an AWS API Gateway V2 HTTP event into a structured request object.
  *
@@ -173,6 +199,7 @@ export function hasKey(mystery: unknown, key: string): mystery is Record<string,
  * and safely parses the request body (handling base64 encoding if present).
  *
  * @param event - The API Gateway Proxy Event V2 object containing request details
+ * @param basePath - Base path of the HTTP API (`HTTP_BASE_PATH`), stripped from the path
  * @returns A RequestEvent object containing:
  *   - httpContext: The original event object
  *   - parsedBody: The safely parsed request body (JSON or null)
@@ -180,16 +207,15 @@ export function hasKey(mystery: unknown, key: string): mystery is Record<string,
  *
  * @example
  * // For a request to POST /users/create
- * const requestEvent = parseHttpEvent(event);
+ * const requestEvent = parseHttpEvent(event, config.httpBasePath);
  * // Returns: { targetResource: { method: 'POST', resource: 'users', action: 'create' }, ... }
  */
-export function parseHttpEvent(event: APIGatewayProxyEventV2): RequestEvent {
+export function parseHttpEvent(event: APIGatewayProxyEventV2, basePath = ''): RequestEvent {
   const {
     http: { path, method }
   } = event.requestContext;
 
   // Strip base path if configured
-  const basePath = process.env.HTTP_BASE_PATH || '';
   const normalizedPath = basePath ? path.replace(new RegExp(`^${basePath}`), '') : path;
 
   const pathParts = normalizedPath?.split('/').filter(Boolean) ?? [];
@@ -200,6 +226,28 @@ export function parseHttpEvent(event: APIGatewayProxyEventV2): RequestEvent {
   return {
     httpContext: event,
     parsedBody: safeJson(event.body, event.isBase64Encoded),
-    targetResource
+    targetResource,
+    idempotencyKey: getHeader(event.headers, IDEMPOTENCY_KEY_HEADER)
   };
 }
+
+/**
+ * Returns the HTTP method of a route, falling back to POST
+ *
+ * @param route - The route definition
+ * @returns Upper case HTTP method
+ */
+export function getHttpMethod(route: RouteDefinition): string {
+  return (route.method || DEFAULT_HTTP_METHOD).toUpperCase();
+}
+
+/**
+ * Returns the WebSocket command name of a route
+ * Format: "resource:action", or just "resource" for single-word commands
+ *
+ * @param route - The route definition
+ * @returns The command name clients send in the `command` field
+ */
+export function getCommand(route: RouteDefinition): string {
+  return route.action ? `${route.resource}:${route.action}` : route.resource;
+}
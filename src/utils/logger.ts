@@ -5,13 +5,14 @@
  * Works both in serverless-offline and deployed environments.
  */
 
-import { isTrue } from './lib';
+import { config } from '../config';
+import { getCorrelationId } from './correlation';
 
-/** Configured log level from environment (default: 'info') */
-const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+/** Configured log level (default: 'info') */
+const LOG_LEVEL = config.logLevel;
 
 /** Current deployment stage (default: 'dev') */
-const STAGE = process.env.STAGE || 'dev';
+const STAGE = config.stage;
 
 /**
  * Numeric log levels for filtering.
@@ -40,7 +41,8 @@ const currentLevel = LEVEL_MAP[LOG_LEVEL] ?? LogLevel.INFO;
  *
  * Outputs logs in JSON format for CloudWatch (deployed) or pretty-printed
  * format for local development (offline). Automatically filters out logs
- * below the configured LOG_LEVEL threshold.
+ * below the configured LOG_LEVEL threshold. Entries logged while processing an invocation
+ * carry its correlation ID.
  *
  * @param level - Log level string ('error', 'warn', 'info', 'debug')
  * @param message - Primary log message
@@ -51,15 +53,18 @@ function structuredLog(level: string, message: string, context?: Record<string,
   if (logLevel > currentLevel) {
     return; // Skip if below configured level
   }
+  const correlationId = getCorrelationId();
   const logEntry = {
     timestamp: new Date().toISOString(),
     level: level.toUpperCase(),
+    ...(correlationId && { correlationId }),
     message,
     ...context
   };
   // Pretty print in offline mode
-  if (isTrue(process.env.IS_OFFLINE)) {
-    console.log(`[${logEntry.level}] ${logEntry.message}`, context ? context : '');
+  if (config.isOffline) {
+    const prefix = correlationId ? `[${logEntry.level}] [${correlationId}]` : `[${logEntry.level}]`;
+    console.log(`${prefix} ${logEntry.message}`, context ? context : '');
   } else {
     console.log(JSON.stringify(logEntry));
   }
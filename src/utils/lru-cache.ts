@@ -0,0 +1,70 @@
+/**
+ * Creates a bounded map evicting its least recently used entries
+ *
+ * Relies on the insertion order of `Map`: reading an entry moves it to the end, and the first entry is
+ * evicted when the cache is full.
+ *
+ * @param maxEntries - Maximum number of entries kept
+ * @returns An object to read and write the cache
+ *
+ * @example
+ * ```typescript
+ * const cache = CreateLruCache<string>(2);
+ * cache.set('a', '1');
+ * cache.set('b', '2');
+ * cache.get('a');
+ * cache.set('c', '3'); // evicts 'b'
+ * ```
+ */
+export const CreateLruCache = <V>(maxEntries: number) => {
+  const entries = new Map<string, V>();
+
+  return {
+    /**
+     * Reads an entry, marking it as the most recently used
+     */
+    get: (key: string): V | undefined => {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+
+    /**
+     * Writes an entry, evicting the least recently used one when full
+     */
+    set: (key: string, value: V): void => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    delete: (key: string): boolean => entries.delete(key),
+
+    /**
+     * Removes every entry matching a predicate
+     *
+     * @returns The number of entries removed
+     */
+    deleteWhere: (predicate: (value: V, key: string) => boolean): number => {
+      let deleted = 0;
+      for (const [key, value] of entries) {
+        if (predicate(value, key)) {
+          entries.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    get size(): number {
+      return entries.size;
+    }
+  };
+};
+
+export type LruCache<V> = ReturnType<typeof CreateLruCache<V>>;
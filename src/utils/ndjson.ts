@@ -0,0 +1,40 @@
+/**
+ * Reads a newline-delimited JSON stream, one value per line, as chunks arrive.
+ *
+ * Lines may be split across chunks: a line is only parsed once complete. Blank lines are skipped,
+ * and a last line without a trailing newline is still read when the stream ends.
+ *
+ * @param stream - The response body, e.g. of an Axios request made with `responseType: 'stream'`
+ * @returns Async iterable of the parsed values
+ * @throws SyntaxError if a line is not valid JSON, or the error of the underlying stream
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readNdjson<WebChatStreamEvent>(response.data)) {
+ *   console.log(event.type);
+ * }
+ * ```
+ */
+export async function* readNdjson<T>(stream: AsyncIterable<Buffer | string>): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for await (const chunk of stream) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) {
+        yield JSON.parse(line) as T;
+      }
+      newline = buffered.indexOf('\n');
+    }
+  }
+
+  const last = (buffered + decoder.decode()).trim();
+  if (last) {
+    yield JSON.parse(last) as T;
+  }
+}
@@ -0,0 +1,245 @@
+import pkg from '../../package.json';
+import { PublicErrorSchema } from '../schemas/response-schemas';
+import { RouteDefinition } from '../types/route-types';
+import { JsonSchema } from '../types/schema-types';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+import { getHttpMethod } from './lib';
+import { LAST_EVENT_ID_HEADER } from './sse';
+
+/**
+ * Plain JSON object emitted in generated API documents
+ */
+export type DocumentObject = Record<string, unknown>;
+
+/** Bearer scheme name, matching the `Authorization: Bearer <token>` header read by `jwtMiddleware` */
+const BEARER_AUTH = 'bearerAuth';
+
+/**
+ * Converts a route schema into a JSON Schema 2020-12 object, as used by OpenAPI 3.1 and AsyncAPI 3.
+ *
+ * Schemas with a `title` are registered once in `components` and replaced by a `$ref`,
+ * so DTOs shared by several routes become named types in generated clients.
+ * `nullable` is translated into a `[type, 'null']` type union.
+ *
+ * @param schema - The route schema to convert
+ * @param components - Registry of named schemas, filled as titled schemas are found
+ * @returns The converted schema, or a `$ref` to `#/components/schemas/<title>`
+ *
+ * @example
+ * ```typescript
+ * const components = {};
+ * toDocumentSchema(SignedUrlSchema, components);
+ * // => { $ref: '#/components/schemas/SignedUrl' }, components now holds SignedUrl and FileDTO
+ * ```
+ */
+export function toDocumentSchema(schema: JsonSchema, components: Record<string, DocumentObject>): DocumentObject {
+  const { title, nullable, type, properties, items, ...keywords } = schema;
+
+  if (title) {
+    if (!components[title]) {
+      components[title] = {}; // Reserve the name first so recursive schemas terminate
+      components[title] = { title, ...toDocumentSchema({ ...schema, title: undefined }, components) };
+    }
+    return { $ref: `#/components/schemas/${title}` };
+  }
+
+  return {
+    type: nullable ? [type, 'null'] : type,
+    ...keywords,
+    ...(properties && {
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, toDocumentSchema(value, components)])
+      )
+    }),
+    ...(items && { items: toDocumentSchema(items, components) })
+  };
+}
+
+/**
+ * Builds the `success()` envelope from `utils/response.ts` around a result schema.
+ *
+ * @internal
+ */
+function successEnvelope(result: DocumentObject): DocumentObject {
+  return {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      result
+    },
+    required: ['success', 'result']
+  };
+}
+
+/**
+ * Builds an OpenAPI response object pointing to the shared failure envelope.
+ *
+ * @internal
+ */
+function failureResponse(description: string): DocumentObject {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/FailureResponse' } } }
+  };
+}
+
+/**
+ * Builds the OpenAPI query parameters of a route, one per property of its `querySchema`.
+ *
+ * @internal
+ */
+function queryParameters(schema: JsonSchema, components: Record<string, DocumentObject>): DocumentObject[] {
+  return Object.entries(schema.properties || {}).map(([name, { description, ...property }]) => ({
+    name,
+    in: 'query',
+    required: Boolean(schema.required?.includes(name)),
+    ...(description && { description }),
+    schema: toDocumentSchema(property, components)
+  }));
+}
+
+/**
+ * Builds the OpenAPI operation object of a single HTTP route.
+ *
+ * @internal
+ */
+function buildOperation(route: RouteDefinition, components: Record<string, DocumentObject>): DocumentObject {
+  const result = route.responseSchema ? toDocumentSchema(route.responseSchema, components) : {};
+  const idempotent = route.auth && route.idempotent;
+
+  const responses: Record<string, DocumentObject> = {
+    '200': route.serverSentEvents
+      ? {
+          description: 'Server-Sent Events, each with its ID to resume from',
+          content: { 'text/event-stream': { schema: { type: 'string' } } }
+        }
+      : {
+          description: 'Success',
+          content: { 'application/json': { schema: successEnvelope(result) } }
+        },
+    '400': failureResponse('Invalid request'),
+    ...(route.auth && { '401': failureResponse('Missing, invalid or expired bearer token') }),
+    ...(route.auth &&
+      route.capability && {
+        '403': failureResponse(`The shareable does not grant \`${route.capability}\` (\`CAPABILITY_DENIED\`)`)
+      }),
+    ...(idempotent && {
+      '409': failureResponse('A request with the same idempotency key is in progress (`IDEMPOTENCY_IN_PROGRESS`)')
+    }),
+    ...(route.bodySchema && { '422': failureResponse('Request body failed validation, see `error.fields`') }),
+    ...(idempotent && {
+      '422': failureResponse(
+        [
+          ...(route.bodySchema ? ['Request body failed validation, see `error.fields`, or the'] : ['The']),
+          'idempotency key was already used with another body (`IDEMPOTENCY_KEY_REUSED`)'
+        ].join(' ')
+      )
+    }),
+    '500': failureResponse('Internal server error')
+  };
+
+  const parameters: DocumentObject[] = [
+    ...(route.querySchema ? queryParameters(route.querySchema, components) : []),
+    ...(idempotent
+      ? [
+          {
+            name: IDEMPOTENCY_KEY_HEADER,
+            in: 'header',
+            required: false,
+            description: 'Resending a request with the same key replays its first result instead of running it again',
+            schema: { type: 'string', minLength: 1, maxLength: 255 }
+          }
+        ]
+      : []),
+    ...(route.serverSentEvents
+      ? [
+          {
+            name: LAST_EVENT_ID_HEADER,
+            in: 'header',
+            required: false,
+            description: 'ID of the last event received, to resume after it when reconnecting',
+            schema: { type: 'string' }
+          }
+        ]
+      : [])
+  ];
+
+  return {
+    operationId: [route.resource, route.action]
+      .filter(Boolean)
+      .join('-')
+      .replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase()),
+    tags: [route.resource],
+    ...(route.description && { summary: route.description }),
+    security: route.auth ? [{ [BEARER_AUTH]: [] }] : [],
+    ...(parameters.length && { parameters }),
+    ...(route.bodySchema && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toDocumentSchema(route.bodySchema, components) } }
+      }
+    }),
+    responses
+  };
+}
+
+/**
+ * Generates an OpenAPI 3.1 document describing the HTTP routes of the service.
+ *
+ * Paths follow the `/<resource>/<action>` convention of `parseHttpEvent`, request bodies come
+ * from each route's `bodySchema`, results from its `responseSchema`, and every response uses the
+ * `{ success, result }` / `{ success, message, error }` envelopes from `utils/response.ts`.
+ * Routes declared with `auth: true` require the bearer token minted by `/resource/get`.
+ *
+ * @param routes - HTTP routes from the route registry
+ * @param basePath - Optional base path the API is mounted on (`HTTP_BASE_PATH`)
+ * @returns The OpenAPI document as a plain JSON object
+ *
+ * @example
+ * ```typescript
+ * const document = buildOpenApiDocument(getRoutesFor('http'), config.httpBasePath);
+ * // => { openapi: '3.1.0', paths: { '/webchat/send': { post: {...} }, ... }, components: {...} }
+ * ```
+ */
+export function buildOpenApiDocument(routes: RouteDefinition[], basePath = ''): DocumentObject {
+  const components: Record<string, DocumentObject> = {};
+  const paths: Record<string, Record<string, DocumentObject>> = {};
+
+  for (const route of routes) {
+    const path = `/${[route.resource, route.action].filter(Boolean).join('/')}`;
+    paths[path] = paths[path] || {};
+    paths[path][getHttpMethod(route).toLowerCase()] = buildOperation(route, components);
+  }
+
+  components.FailureResponse = {
+    type: 'object',
+    properties: {
+      success: { const: false },
+      message: { type: 'string' },
+      error: toDocumentSchema(PublicErrorSchema, components)
+    },
+    required: ['success', 'message', 'error']
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Agentic Shareables API',
+      description: pkg.description,
+      version: pkg.version
+    },
+    servers: [{ url: basePath || '/' }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        [BEARER_AUTH]: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Transient token returned as `authToken` by `/resource/get`'
+        }
+      }
+    }
+  };
+}
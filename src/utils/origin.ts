@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { HttpStatusCode } from 'axios';
+import { HttpCodedError } from '../errors/http-error';
+import { ShareableContext } from '../types/shareable-context';
+import { CORRELATION_ID_HEADER } from './correlation';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+import logger from './logger';
+import { LAST_EVENT_ID_HEADER } from './sse';
+
+/** Request headers browsers may send cross-origin, answered to CORS preflight requests */
+const ALLOWED_REQUEST_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'X-Amz-Date',
+  'X-Api-Key',
+  'X-Amz-Security-Token',
+  'X-Amz-User-Agent',
+  CORRELATION_ID_HEADER,
+  IDEMPOTENCY_KEY_HEADER,
+  LAST_EVENT_ID_HEADER
+];
+
+/** Methods answered to CORS preflight requests */
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * Origin of the invocation being processed, and the allowlist of the shareable it was checked against
+ */
+type OriginContext = {
+  origin?: string;
+  allowedOrigins?: string[];
+};
+
+/** Holds the origin context of the invocation currently being processed */
+const storage = new AsyncLocalStorage<OriginContext>();
+
+/**
+ * Checks an origin against an allowlist.
+ * Entries are exact origins (`https://app.example.com`) or subdomain wildcards (`https://*.example.com`).
+ *
+ * @param allowedOrigins - The shareable allowlist. Undefined allows any origin
+ * @param origin - The `Origin` header. Requests without one (non-browser clients) are allowed
+ * @returns True if the origin is allowed
+ */
+export function isOriginAllowed(allowedOrigins: string[] | undefined, origin: string | undefined): boolean {
+  if (!allowedOrigins || !origin) {
+    return true;
+  }
+
+  const candidate = origin.toLowerCase();
+  return allowedOrigins.some((entry) => {
+    const allowed = entry.toLowerCase();
+    const [scheme, host] = allowed.split('://*.');
+    return host === undefined
+      ? allowed === candidate
+      : candidate.startsWith(`${scheme}://`) && candidate.endsWith(`.${host}`);
+  });
+}
+
+/**
+ * Runs a function with the `Origin` of the request bound to everything it does asynchronously,
+ * so the shareable allowlist can be enforced and reflected in CORS response headers.
+ *
+ * @param origin - The `Origin` header of the request, if any
+ * @param fn - The invocation to run
+ * @returns The result of `fn`
+ */
+export function withRequestOrigin<T>(origin: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ origin }, fn);
+}
+
+/**
+ * Sets the origin of the invocation being processed, when it is only known after `withRequestOrigin`
+ * (e.g. WebSocket messages, whose origin is the one of the `$connect` handshake stored in the connection record)
+ *
+ * @param origin - The origin of the request
+ */
+export function setRequestOrigin(origin: string | undefined): void {
+  const context = storage.getStore();
+  if (context) {
+    context.origin = origin;
+  }
+}
+
+/**
+ * Enforces the origin allowlist of a shareable on the invocation being processed.
+ * The allowlist is remembered for the CORS headers of the response.
+ *
+ * @param shareable - The shareable the request is made for
+ * @throws {HttpCodedError} 403 Forbidden - With code `ORIGIN_NOT_ALLOWED`, if the request origin is not allowed
+ */
+export function enforceOriginPolicy(shareable: Pick<ShareableContext, 'type' | 'id' | 'allowedOrigins'>): void {
+  const context = storage.getStore();
+  if (!context) {
+    return;
+  }
+
+  context.allowedOrigins = shareable.allowedOrigins;
+  if (!isOriginAllowed(shareable.allowedOrigins, context.origin)) {
+    logger.warn(`Origin ${context.origin} is not allowed for ${shareable.type}:${shareable.id}`);
+    throw new HttpCodedError(HttpStatusCode.Forbidden, 'Origin not allowed', { code: 'ORIGIN_NOT_ALLOWED' });
+  }
+}
+
+/**
+ * Builds the CORS headers of a response.
+ *
+ * Once a shareable with an allowlist has been checked, only allowed origins are echoed back, so
+ * browsers refuse to expose responses to other sites. Until then (e.g. authentication errors, shareables
+ * without allowlist) any origin is allowed.
+ *
+ * @param preflight - Whether this answers a CORS preflight (OPTIONS) request
+ * @returns The CORS headers, empty outside of a request with an `Origin` header
+ */
+export function corsHeaders(preflight = false): Record<string, string> {
+  const context = storage.getStore();
+  if (!context?.origin) {
+    return {};
+  }
+
+  const { origin, allowedOrigins } = context;
+  return {
+    ...(isOriginAllowed(allowedOrigins, origin) && {
+      'Access-Control-Allow-Origin': allowedOrigins ? origin : '*'
+    }),
+    'Access-Control-Expose-Headers': CORRELATION_ID_HEADER,
+    Vary: 'Origin',
+    ...(preflight && {
+      'Access-Control-Allow-Headers': ALLOWED_REQUEST_HEADERS.join(', '),
+      'Access-Control-Allow-Methods': ALLOWED_METHODS.join(', '),
+      'Access-Control-Max-Age': '600'
+    })
+  };
+}
@@ -1,13 +1,47 @@
 import { APIGatewayProxyStructuredResultV2 } from 'aws-lambda';
-import { PublicError, WebsocketResponse } from '../types/response-types';
+import { PublicError, ServerSentEvent, WebsocketResponse } from '../types/response-types';
 import { HttpStatusCode } from 'axios';
+import { ErrorDetails, HttpCodedError } from '../errors/http-error';
+import { CORRELATION_ID_HEADER, getCorrelationId } from './correlation';
 import { getErrorMessage } from './lib';
+import { corsHeaders } from './origin';
+import { formatServerSentEvent } from './sse';
+
+/**
+ * Builds the headers shared by every HTTP response.
+ * Includes the correlation ID of the invocation, so clients can report it, and the CORS headers
+ * reflecting the origin allowlist of the shareable.
+ *
+ * @internal
+ */
+function responseHeaders(): Record<string, string> {
+  const correlationId = getCorrelationId();
+  return {
+    'Content-Type': 'application/json',
+    ...(correlationId && { [CORRELATION_ID_HEADER]: correlationId }),
+    ...corsHeaders()
+  };
+}
+
+/**
+ * Builds the correlation fields shared by every WebSocket frame.
+ *
+ * @internal
+ */
+function frameCorrelation(requestId?: string): Pick<WebsocketResponse, 'requestId' | 'correlationId'> {
+  const correlationId = getCorrelationId();
+  return {
+    ...(requestId !== undefined && { requestId }),
+    ...(correlationId && { correlationId })
+  };
+}
 
 /**
  * Creates a successful API Gateway response with standardized JSON structure.
  *
  * Returns a response with `success: true` and the provided result data in the body.
- * Always includes Content-Type header set to application/json.
+ * Always includes Content-Type header set to application/json, and the `X-Request-Id`
+ * correlation header when called while processing an invocation.
  *
  * @param result - The data to return in the response body (will be JSON stringified)
  * @param statusCode - HTTP status code (defaults to 200 OK)
@@ -31,16 +65,103 @@ import { getErrorMessage } from './lib';
  */
 export const success = (result?: unknown, statusCode = HttpStatusCode.Ok): APIGatewayProxyStructuredResultV2 => ({
   statusCode,
-  headers: { 'Content-Type': 'application/json' },
+  headers: responseHeaders(),
   body: JSON.stringify({ success: true, result: result || 'Ok' })
 });
 
+/**
+ * Creates an API Gateway JSON response without the success envelope.
+ *
+ * Used for payloads consumed by third-party tooling that expects a specific document at the
+ * top level, such as generated API descriptions.
+ *
+ * @param body - The data to return as the response body (will be JSON stringified)
+ * @param statusCode - HTTP status code (defaults to 200 OK)
+ * @returns API Gateway structured response with the body as-is
+ *
+ * @example
+ * ```typescript
+ * return raw({ openapi: '3.1.0', paths: {} });
+ * // => { statusCode: 200, body: '{"openapi":"3.1.0","paths":{}}', headers: { 'Content-Type': 'application/json' } }
+ * ```
+ */
+export const raw = (body: unknown, statusCode = HttpStatusCode.Ok): APIGatewayProxyStructuredResultV2 => ({
+  statusCode,
+  headers: responseHeaders(),
+  body: JSON.stringify(body)
+});
+
+/**
+ * Delay (ms) before Server-Sent Events clients reconnect once a response ends, resuming with `Last-Event-ID`
+ */
+const SSE_RETRY_MS = 1000;
+
+/**
+ * API Gateway response whose body is a stream of Server-Sent Events, written by the HTTP router as they come
+ */
+export type EventStreamResult = APIGatewayProxyStructuredResultV2 & { events: AsyncIterable<ServerSentEvent> };
+
+/**
+ * Creates a Server-Sent Events response.
+ *
+ * The events are streamed by the HTTP router with Lambda response streaming, or buffered into the body
+ * (see `bufferEventStream`) when the response cannot be streamed, e.g. behind API Gateway or offline.
+ * The stream starts with the reconnection delay of clients.
+ *
+ * @param events - The events to send
+ * @returns Response with the `text/event-stream` headers, and the events to write
+ */
+export const eventStream = (events: AsyncIterable<ServerSentEvent>): EventStreamResult => ({
+  statusCode: HttpStatusCode.Ok,
+  headers: {
+    ...responseHeaders(),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache'
+  },
+  events: (async function* () {
+    yield { retry: SSE_RETRY_MS };
+    yield* events;
+  })()
+});
+
+/**
+ * Writes every event of a Server-Sent Events response into its body, for responses that cannot be streamed.
+ *
+ * @param result - The Server-Sent Events response
+ * @returns API Gateway structured response, once the events ended
+ */
+export const bufferEventStream = async ({
+  events,
+  ...result
+}: EventStreamResult): Promise<APIGatewayProxyStructuredResultV2> => {
+  let body = '';
+  for await (const event of events) {
+    body += formatServerSentEvent(event);
+  }
+  return { ...result, body };
+};
+
+/**
+ * Creates the empty response of a CORS preflight (OPTIONS) request.
+ *
+ * Preflight requests carry no credentials, so the shareable is unknown: any origin is allowed here,
+ * and the allowlist is enforced on the actual request.
+ *
+ * @returns API Gateway structured response with the CORS headers
+ */
+export const preflight = (): APIGatewayProxyStructuredResultV2 => ({
+  statusCode: HttpStatusCode.NoContent,
+  headers: corsHeaders(true)
+});
+
 /**
  * Creates an error API Gateway response with standardized JSON structure.
  *
  * Returns a response with `success: false` and error details in the body.
  * The error parameter is parsed to extract message and code information.
- * Always includes Content-Type header set to application/json.
+ * Always includes Content-Type header set to application/json, and the `X-Request-Id`
+ * correlation header when called while processing an invocation. Errors telling when to retry
+ * (`details.retryAfterSeconds`) also set the `Retry-After` header.
  *
  * @param message - Human-readable error message to display to the client
  * @param statusCode - HTTP status code (defaults to 500 Internal Server Error)
@@ -73,13 +194,17 @@ export const failure = (
   statusCode = HttpStatusCode.InternalServerError,
   error?: Error
 ): APIGatewayProxyStructuredResultV2 => {
+  const publicError = parseError(error);
   const response = {
     statusCode,
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      ...responseHeaders(),
+      ...(publicError.retryAfterSeconds && { 'Retry-After': String(publicError.retryAfterSeconds) })
+    },
     body: JSON.stringify({
       success: false,
       message,
-      error: parseError(error)
+      error: publicError
     })
   };
   return response;
@@ -92,6 +217,8 @@ export const failure = (
  * - Direct string: `"Something went wrong"` → `{ message: "Something went wrong" }`
  * - Object with error property: `{ error: "text" }` → extracts the error value
  * - Error object with message: `{ message: "...", code: "..." }` → extracts both
+ * - `HttpCodedError` with `details: { code, fields, retryAfterSeconds }` → extracts the code, field-level errors
+ *   and retry delay
  * - Any other format: `{ message: "An error occurred" }` (fallback)
  *
  * @param result - The error data to parse (can be string, Error object, or any structure)
@@ -115,9 +242,13 @@ export const failure = (
  * // => { message: 'Database error', code: undefined }
  * ```
  *
- * @internal
+ * @example
+ * ```typescript
+ * parseError(new HttpCodedError(422, 'Invalid request body', { code: 'VALIDATION_FAILED', fields: [...] }));
+ * // => { message: 'Invalid request body', code: 'VALIDATION_FAILED', fields: [...] }
+ * ```
  */
-function parseError(error: Error | undefined): PublicError {
+export function parseError(error: Error | undefined): PublicError {
   if (!error) {
     return {
       message: 'Error',
@@ -128,25 +259,55 @@ function parseError(error: Error | undefined): PublicError {
   // Extract message from various formats
   const message = getErrorMessage(error);
 
-  // Extract optional error code
-  const code = 'code' in error ? String(error.code) : undefined;
+  // Extract optional error code and field errors, either from the error itself or its details
+  const details = error instanceof HttpCodedError ? (error.details as ErrorDetails | undefined) : undefined;
+  const code = 'code' in error ? String(error.code) : details?.code;
+  const fields = details?.fields;
+  const retryAfterSeconds = details?.retryAfterSeconds;
 
-  return { message, code };
+  return {
+    message,
+    ...(code && { code }),
+    ...(fields && { fields }),
+    ...(retryAfterSeconds && { retryAfterSeconds })
+  };
 }
 
-export const wsSuccess = (result?: unknown, statusCode = HttpStatusCode.Ok): WebsocketResponse => ({
+/**
+ * Creates a successful WebSocket response frame.
+ * Carries the correlation ID of the invocation, so clients can report it.
+ *
+ * @param result - The data to return in the frame
+ * @param statusCode - HTTP-equivalent status code (defaults to 200 OK)
+ * @param requestId - Client-supplied request ID to echo back, if the message carried one
+ * @returns WebSocket response frame (the command is added by `websocketClient`)
+ */
+export const wsSuccess = (result?: unknown, statusCode = HttpStatusCode.Ok, requestId?: string): WebsocketResponse => ({
+  ...frameCorrelation(requestId),
   statusCode,
   success: true,
   message: 'Ok',
   result
 });
 
+/**
+ * Creates an error WebSocket response frame.
+ * Carries the correlation ID of the invocation, so clients can report it.
+ *
+ * @param message - Human-readable error message
+ * @param statusCode - HTTP-equivalent status code (defaults to 500 Internal Server Error)
+ * @param error - Optional error to be parsed into a `PublicError`
+ * @param requestId - Client-supplied request ID to echo back, if the message carried one
+ * @returns WebSocket response frame (the command is added by `websocketClient`)
+ */
 export const wsFailure = (
   message: string,
   statusCode = HttpStatusCode.InternalServerError,
-  error?: Error
+  error?: Error,
+  requestId?: string
 ): WebsocketResponse => {
   return {
+    ...frameCorrelation(requestId),
     statusCode,
     success: false,
     message,
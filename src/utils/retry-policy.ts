@@ -0,0 +1,116 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+
+/**
+ * When a failed core API request is retried
+ */
+export type RetryPolicy = {
+  methods: string[]; // HTTP methods retried. POST requests also need an `Idempotency-Key` header
+  statuses: number[]; // HTTP statuses retried. Network errors and timeouts always are
+  maxAttempts: number; // Attempts in total, including the first one
+  budgetMs: number; // Time allowed across every attempt and delay
+  initialDelayMs: number; // Delay before the first retry, doubled for each retry after it
+  maxDelayMs: number; // Cap of the delay between attempts
+};
+
+/**
+ * Retries idempotent methods on network errors, throttling and unavailability. Never retries 401.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  statuses: [429, 500, 502, 503, 504],
+  maxAttempts: 3,
+  budgetMs: 10000,
+  initialDelayMs: 100,
+  maxDelayMs: 2000
+};
+
+/**
+ * Never retries
+ */
+export const NO_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+
+/**
+ * Progress of a request through its attempts
+ */
+export type RetryState = {
+  attempt: number; // Attempts made so far, including the one that just failed
+  startedAt: number; // Timestamp (ms) of the first attempt
+};
+
+/**
+ * Outcome of `decideRetry`: the delay before the next attempt, or why the request is not retried
+ */
+export type RetryDecision = { retry: true; delayMs: number } | { retry: false; reason: string };
+
+/**
+ * Reads the `Retry-After` header of a response, in milliseconds (delay in seconds or HTTP date)
+ *
+ * @internal
+ */
+function getRetryAfterMs(error: AxiosError, now: number): number | undefined {
+  const value = AxiosHeaders.from(error.response?.headers as AxiosHeaders | undefined).get('Retry-After');
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decides whether a failed request is retried, and after which delay
+ *
+ * A request is retried when all of the following hold:
+ * - Its method is listed by the policy, and POST requests carry an idempotency key
+ * - It failed with a network error (no response) or a listed status
+ * - It has attempts left, and the delay fits in what remains of the time budget
+ *
+ * The delay grows exponentially, and honors the `Retry-After` header of the response when longer.
+ *
+ * @param policy - The retry policy of the request
+ * @param error - The error of the attempt that just failed
+ * @param state - Attempts made so far and when the first one started
+ * @param now - Current timestamp (ms)
+ * @returns The decision, with the delay before the next attempt or the reason not to retry
+ *
+ * @example
+ * ```typescript
+ * decideRetry(DEFAULT_RETRY_POLICY, error, { attempt: 1, startedAt }); // => { retry: true, delayMs: 100 }
+ * ```
+ */
+export function decideRetry(
+  policy: RetryPolicy,
+  error: AxiosError,
+  state: RetryState,
+  now = Date.now()
+): RetryDecision {
+  const method = (error.config?.method ?? 'get').toUpperCase();
+  if (!policy.methods.includes(method)) {
+    return { retry: false, reason: `${method} requests are not retried` };
+  }
+
+  if (method === 'POST' && !AxiosHeaders.from(error.config?.headers).has(IDEMPOTENCY_KEY_HEADER)) {
+    return { retry: false, reason: 'POST requests are only retried with an idempotency key' };
+  }
+
+  const status = error.response?.status;
+  if (status !== undefined && !policy.statuses.includes(status)) {
+    return { retry: false, reason: `HTTP ${status} is not retried` };
+  }
+
+  if (state.attempt >= policy.maxAttempts) {
+    return { retry: false, reason: `Max attempts (${policy.maxAttempts}) reached` };
+  }
+
+  const backoffMs = Math.min(policy.initialDelayMs * Math.pow(2, state.attempt - 1), policy.maxDelayMs);
+  const delayMs = Math.max(backoffMs, getRetryAfterMs(error, now) ?? 0);
+  if (now + delayMs - state.startedAt >= policy.budgetMs) {
+    return { retry: false, reason: `Retry budget (${policy.budgetMs}ms) exhausted` };
+  }
+
+  return { retry: true, delayMs };
+}
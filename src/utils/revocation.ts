@@ -0,0 +1,30 @@
+import { RevocationRecord } from '../types/revocation-types';
+import { TransientTokenClaims } from '../types/shareable-context';
+
+/**
+ * Builds the revocation key of a single token
+ *
+ * @param jti - The token ID
+ * @returns The revocation key
+ */
+export const jtiRevocationKey = (jti: string): string => `jti:${jti}`;
+
+/**
+ * Builds the revocation key covering every token of a shareable
+ *
+ * @param type - The shareable resource type
+ * @param id - The shareable resource ID
+ * @returns The revocation key
+ */
+export const shareableRevocationKey = (type: string, id: string): string => `shareable:${type}:${id}`;
+
+/**
+ * Tells whether a token is covered by a revocation record
+ * Shareable revocations only apply to tokens issued before (or during the same second as) the revocation.
+ *
+ * @param record - The revocation record found for one of the token's keys, if any
+ * @param claims - The decoded token claims
+ * @returns True if the token must be rejected
+ */
+export const isRevokedBy = (record: RevocationRecord | null | undefined, claims: TransientTokenClaims): boolean =>
+  !!record && (record.revocationKey.startsWith('jti:') || claims.iat <= record.revokedAt);
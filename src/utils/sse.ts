@@ -0,0 +1,118 @@
+import { ServerSentEvent } from '../types/response-types';
+import { SessionEvent } from '../types/session-event-types';
+import { ShareableContext } from '../types/shareable-context';
+
+/**
+ * Header sent by reconnecting Server-Sent Events clients, with the ID of the last event they received
+ */
+export const LAST_EVENT_ID_HEADER = 'Last-Event-ID';
+
+/**
+ * How long buffered responses wait for events, within the 30 seconds API Gateway waits for an integration
+ */
+export const BUFFERED_MAX_DURATION_MS = 25000;
+
+/** Interval of keep-alive comments while no event is sent, so proxies do not close idle responses */
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+/**
+ * Builds the key of the event log of a webchat session: sessions are scoped to their shareable
+ *
+ * @param shareable - The authenticated shareable
+ * @param sessionId - The webchat session ID
+ * @returns The session stream key
+ */
+export const sessionStreamKey = (shareable: ShareableContext, sessionId: string): string =>
+  `${shareable.type}:${shareable.id}:${sessionId}`;
+
+/**
+ * Parses the ID of the last event received by a reconnecting client
+ *
+ * @param value - The `Last-Event-ID` header, or equivalent query string parameter
+ * @returns The sequence number to resume after, undefined if absent or invalid (a new client)
+ */
+export const parseLastEventId = (value: string | undefined): number | undefined => {
+  const seq = Number(value);
+  // 0 is the ID of the head of an empty log (see `followSessionEvents`)
+  return value && Number.isSafeInteger(seq) && seq >= 0 ? seq : undefined;
+};
+
+/**
+ * Serializes a Server-Sent Event in the `text/event-stream` format
+ *
+ * @param event - The event to serialize
+ * @returns The event fields, one per line, ending with a blank line
+ *
+ * @example
+ * ```typescript
+ * formatServerSentEvent({ id: '42', event: 'webchat:delta', data: '{"delta":"Hi"}' });
+ * // => 'id: 42\nevent: webchat:delta\ndata: {"delta":"Hi"}\n\n'
+ * ```
+ */
+export const formatServerSentEvent = (event: ServerSentEvent): string => {
+  const lines = [
+    ...(event.comment !== undefined ? [`: ${event.comment}`] : []),
+    ...(event.id !== undefined ? [`id: ${event.id}`] : []),
+    ...(event.event !== undefined ? [`event: ${event.event}`] : []),
+    ...(event.retry !== undefined ? [`retry: ${event.retry}`] : []),
+    ...(event.data !== undefined ? event.data.split('\n').map((line) => `data: ${line}`) : [])
+  ];
+  return `${lines.join('\n')}\n\n`;
+};
+
+/**
+ * Options of `followSessionEvents`
+ */
+export type FollowOptions = {
+  maxDurationMs: number; // When to stop following: clients reconnect and resume with `Last-Event-ID`
+  pollIntervalMs: number; // How often the log is read while no event is found
+  returnWhenIdle: boolean; // Stop as soon as no new event is found, once some were sent (buffered responses)
+};
+
+/**
+ * Follows the event log of a session, as Server-Sent Events
+ *
+ * The log is read until `maxDurationMs`, and keep-alive comments are sent while it stays idle.
+ * Buffered responses (`returnWhenIdle`) end once a batch of events is sent, like a long poll.
+ * The position followed from is sent first, as an ID without data: clients whose response ends without
+ * events still resume from there, instead of starting over at the head of the log.
+ *
+ * @param readAfter - Reads the events of the session after a sequence number (see `sessionEventLog.readAfter`)
+ * @param afterSeq - Sequence number of the last event the client received, or reads the last one of the log
+ *   (see `sessionEventLog.lastSeq`) for new clients, which only follow the events to come
+ * @param options - When to stop following
+ * @returns Async iterable of the events, with their sequence number as ID
+ */
+export async function* followSessionEvents(
+  readAfter: (afterSeq: number) => Promise<SessionEvent[]>,
+  afterSeq: number | (() => Promise<number>),
+  options: FollowOptions
+): AsyncGenerator<ServerSentEvent> {
+  const deadline = Date.now() + options.maxDurationMs;
+  let lastSeq = typeof afterSeq === 'number' ? afterSeq : await afterSeq();
+  yield { id: String(lastSeq) };
+  let lastSentAt = Date.now();
+  let sentAny = false;
+
+  while (Date.now() < deadline) {
+    const events = await readAfter(lastSeq);
+    for (const event of events) {
+      yield { id: String(event.seq), event: event.type, data: JSON.stringify(event.data) };
+      lastSeq = event.seq;
+    }
+
+    if (events.length) {
+      sentAny = true;
+      lastSentAt = Date.now();
+      continue;
+    }
+    if (options.returnWhenIdle && sentAny) {
+      return;
+    }
+    if (Date.now() - lastSentAt >= KEEP_ALIVE_INTERVAL_MS) {
+      yield { comment: 'keep-alive' };
+      lastSentAt = Date.now();
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(options.pollIntervalMs, deadline - Date.now())));
+  }
+}
@@ -0,0 +1,113 @@
+import { FieldError } from '../types/response-types';
+import { JsonSchema } from '../types/schema-types';
+
+/**
+ * Returns the JSON Schema type name of a runtime value.
+ *
+ * @param value - Any value
+ * @returns 'null', 'array', 'integer', 'number', or the `typeof` name
+ * @internal
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Checks whether a runtime value satisfies a schema type.
+ * Integers are accepted where numbers are expected.
+ *
+ * @internal
+ */
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  const actual = typeOf(value);
+  if (actual === 'null') return !!schema.nullable;
+  if (schema.type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === schema.type;
+}
+
+/**
+ * Validates a value against a JSON Schema subset and collects every field-level problem.
+ *
+ * Supported keywords: `type`, `properties`, `required`, `additionalProperties: false`, `items`,
+ * `enum`, `minLength`, `maxLength`, `minimum`, `maximum` and `nullable`.
+ *
+ * @param schema - The schema to validate against
+ * @param value - The value to validate (typically `event.parsedBody`)
+ * @param path - Dotted path of `value`, used to build field names (empty for the root)
+ * @returns A list of field errors, empty when the value is valid
+ *
+ * @example
+ * ```typescript
+ * validateSchema(FileConfirmationSchema, { key: 'a', size: 'big' });
+ * // => [{ field: 'size', message: 'must be of type number' }]
+ * ```
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = ''): FieldError[] {
+  const field = path || 'body';
+
+  if (!matchesType(schema, value)) {
+    return [{ field, message: `must be of type ${schema.type}` }];
+  }
+
+  if (value === null) {
+    return [];
+  }
+
+  const errors: FieldError[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field, message: `must be at most ${schema.maxLength} characters long` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be greater than or equal to ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be less than or equal to ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    const prefix = path ? `${path}.` : '';
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push({ field: `${prefix}${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          errors.push(...validateSchema(propertySchema, propertyValue, `${prefix}${key}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: `${prefix}${key}`, message: 'is not allowed' });
+      }
+    }
+  }
+
+  return errors;
+}
@@ -1,45 +1,52 @@
 import type { APIGatewayProxyStructuredResultV2, APIGatewayProxyWebsocketEventV2 } from 'aws-lambda';
 import { HttpStatusCode } from 'axios';
+import { config } from './config';
 import { HttpCodedError } from './errors/http-error';
 import { handleConnect, handleDisconnect } from './handlers/websocket-connection';
-import { requireAuthentication } from './middlewares/ws-auth';
+import { applyMiddleware } from './middlewares/apply-middleware';
+import { authorize } from './middlewares/authorize';
+import { bodyValidator } from './middlewares/body-validator';
+import { idempotencyMiddleware } from './middlewares/idempotency';
+import { wsAuthMiddleware } from './middlewares/ws-auth';
+import { getRoutesFor } from './route-registry';
 import { connectionManager } from './services/connection-manager';
+import { connectionSweeper } from './services/connection-sweeper';
 import { extractErrorData, notifySlackAsync, shouldNotifySlack } from './services/slack-notifier';
 import { websocketClient } from './services/websocket-client';
-import { HandlerFn } from './types/handler-types';
+import { HandlerFn, Middleware } from './types/handler-types';
 import { RequestEvent, WebSocketMessage } from './types/request-types';
 import { ConnectionRecord } from './types/websocket-types';
-import { getErrorMessage, safeJson } from './utils/lib';
+import { resolveWebSocketCorrelationId, withCorrelationId } from './utils/correlation';
+import { getCommand, getErrorMessage, getHeader, hasKey, omit, safeJson } from './utils/lib';
 import logger from './utils/logger';
+import { setRequestOrigin, withRequestOrigin } from './utils/origin';
 import { failure, success, wsFailure, wsSuccess } from './utils/response';
 
-import { authModule } from './handlers/auth';
-import { resourceModule } from './handlers/resource';
-import { uploadModule } from './handlers/upload';
-import { webchatModule } from './handlers/webchat';
-
 /**
  * Routing map for WebSocket messages
- * Reuses the exact same handlers as HTTP!
+ * Built from the shared route registry, so it reuses the exact same handlers as HTTP!
+ * Handlers run through the same middleware chain as HTTP, with `wsAuthMiddleware` in place of `jwtMiddleware`:
+ * - **Protected routes** (`auth: true`): `wsAuthMiddleware` checks the connection is authenticated
+ * - **Route `guards`**: Other authentication (e.g. `backplaneMiddleware`), also before anything reads the body
+ * - **Routes with a `capability`**: Checked by `authorize` against the shareable's type and channels
+ * - **Routes with a `bodySchema`**: Body validated by `bodyValidator` before the handler runs
+ * - **Routes flagged `idempotent`**: Resent requests replayed by `idempotencyMiddleware`
+ * - **Route `middlewares`**: Run last, shared with the HTTP router
  * Format: { "resource:action": handler }
  */
-const messageRoutingMap: Record<string, HandlerFn> = {
-  // Authentication handler - must be called first after connection
-  // Client sends: { command: "authenticate", token: "shareable-token" }
-  authenticate: authModule.authenticate as HandlerFn,
-
-  // Public resource handler (no auth needed, validated via shareable token)
-  'resource:get': resourceModule.get as HandlerFn,
-
-  // Protected handlers (auth required via authenticate command)
-  // webchat handlers
-  'webchat:get-history': webchatModule.getHistory as HandlerFn,
-  'webchat:send': webchatModule.send as HandlerFn,
-
-  // Upload handlers
-  'upload:get-link': uploadModule.getUploadLink as HandlerFn,
-  'upload:confirm': uploadModule.confirmUpload as HandlerFn
-};
+const messageRoutingMap: Record<string, HandlerFn> = Object.fromEntries(
+  getRoutesFor('ws').map((route) => {
+    const middlewares: Middleware[] = [
+      ...(route.auth ? [wsAuthMiddleware] : []),
+      ...(route.guards || []),
+      ...(route.auth && route.capability ? [authorize(route.capability)] : []),
+      ...(route.bodySchema ? [bodyValidator(route.bodySchema)] : []),
+      ...(route.auth && route.idempotent ? [idempotencyMiddleware] : []),
+      ...(route.middlewares || [])
+    ];
+    return [getCommand(route), applyMiddleware(route.handler, middlewares)];
+  })
+);
 
 /**
  * Parse WebSocket message and create RequestEvent
@@ -54,31 +61,45 @@ function parseWebSocketMessage(event: APIGatewayProxyWebsocketEventV2, connectio
   const rawCommand = message.command || '';
   const [resource, action] = rawCommand.split(':');
 
-  // Create a copy without the command field for parsedBody
-  const { command, ...parsedBody } = message;
-  void command;
+  // Create a copy without the command, requestId and idempotencyKey envelope fields for parsedBody
+  const parsedBody = omit(message, ['command', 'requestId', 'idempotencyKey']);
+  const { idempotencyKey } = message;
 
   return {
     websocketContext: event,
     shareableContext: connectionData.shareableContext,
+    connection: connectionData,
     parsedBody,
     targetResource: {
       method: 'WS',
       resource,
       action
-    }
+    },
+    idempotencyKey: typeof idempotencyKey === 'string' ? idempotencyKey : undefined,
+    requestId: getRequestId(event)
   };
 }
 
+/**
+ * Extract the optional client-supplied request ID from a WebSocket message
+ * Echoed on every response frame so clients can correlate concurrent commands
+ */
+function getRequestId(event: APIGatewayProxyWebsocketEventV2): string | undefined {
+  const { requestId } = safeJson<Partial<WebSocketMessage>>(event.body);
+  if (typeof requestId === 'string' || typeof requestId === 'number') {
+    return String(requestId);
+  }
+  return undefined;
+}
+
 /**
  * Get WebSocket endpoint URL from event
  * In offline mode, always use localhost regardless of what the proxy reports
  */
 function getWebSocketEndpoint(event: APIGatewayProxyWebsocketEventV2): string {
   // In offline mode, force localhost endpoint
-  if (process.env.IS_OFFLINE === 'true') {
-    const port = process.env.OFFLINE_WS_PORT || '6001';
-    const endpoint = `http://localhost:${port}`;
+  if (config.isOffline) {
+    const endpoint = `http://localhost:${config.offline.wsPort}`;
     logger.debug(`[OFFLINE MODE] Using WebSocket endpoint: ${endpoint}`);
     return endpoint;
   }
@@ -88,6 +109,17 @@ function getWebSocketEndpoint(event: APIGatewayProxyWebsocketEventV2): string {
   return `https://${domainName}/${stage}`;
 }
 
+/**
+ * Get the Origin header of a $connect handshake
+ * Other events carry no headers: the origin of messages is the one stored in the connection record
+ */
+function getHandshakeOrigin(event: APIGatewayProxyWebsocketEventV2): string | undefined {
+  // $connect events carry the handshake headers even though the event type does not declare them
+  return hasKey(event, 'headers')
+    ? getHeader(event.headers as Record<string, string | undefined>, 'Origin')
+    : undefined;
+}
+
 /**
  * Handle WebSocket $default route (message handling)
  * This reuses existing HTTP handlers!
@@ -95,6 +127,7 @@ function getWebSocketEndpoint(event: APIGatewayProxyWebsocketEventV2): string {
 async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<APIGatewayProxyStructuredResultV2> {
   const connectionId = event.requestContext.connectionId;
   const endpoint = getWebSocketEndpoint(event);
+  const requestId = getRequestId(event);
 
   try {
     // Retrieve connection data from DynamoDB
@@ -106,12 +139,14 @@ async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<AP
         endpoint,
         connectionId,
         '',
-        wsFailure('Connection not found', HttpStatusCode.NotFound)
+        wsFailure('Connection not found', HttpStatusCode.NotFound, undefined, requestId)
       );
       return failure('Connection not found', HttpStatusCode.NotFound);
     }
 
     // Parse the message into RequestEvent format
+    // Messages carry no Origin header: the shareable allowlist is enforced against the handshake origin
+    setRequestOrigin(connection.origin);
     const requestEvent = parseWebSocketMessage(event, connection);
 
     const { resource, action } = requestEvent.targetResource;
@@ -119,26 +154,21 @@ async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<AP
     const command = action ? `${resource}:${action}` : resource;
 
     // Look up handler in routing map
-    const handler = messageRoutingMap[command];
+    const routeHandler = messageRoutingMap[command];
 
-    if (!handler) {
+    if (!routeHandler) {
       logger.warn(`Unknown command: ${command}`);
       await websocketClient.sendToConnection(
         endpoint,
         connectionId,
         command,
-        wsFailure(`Unknown command: ${command}`, HttpStatusCode.BadRequest)
+        wsFailure(`Unknown command: ${command}`, HttpStatusCode.BadRequest, undefined, requestId)
       );
       return success(); // Return success to Lambda, error sent to client
     }
 
-    // Check authentication for all commands except 'authenticate'
-    if (command !== 'authenticate') {
-      requireAuthentication(connection, command);
-    }
-
-    // Execute the handler
-    const handlerResponse = await handler(requestEvent);
+    // Execute the handler through its middleware chain (authentication, validation, ...)
+    const handlerResponse = await routeHandler(requestEvent);
 
     // Send response back to the client
     // handlerResponse has shape { result, statusCode }, extract result for WebSocket response
@@ -146,7 +176,7 @@ async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<AP
       endpoint,
       connectionId,
       command,
-      wsSuccess(handlerResponse.result, handlerResponse.statusCode)
+      wsSuccess(handlerResponse.result, handlerResponse.statusCode, requestId)
     );
     return success();
   } catch (err: any) {
@@ -175,7 +205,12 @@ async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<AP
       const command = (body as WebSocketMessage).command || 'unknown';
 
       if (err instanceof HttpCodedError) {
-        await websocketClient.sendToConnection(endpoint, connectionId, command, wsFailure(err.message, err.statusCode));
+        await websocketClient.sendToConnection(
+          endpoint,
+          connectionId,
+          command,
+          wsFailure(err.message, err.statusCode, err, requestId)
+        );
 
         // Disconnect if the error requires it
         if (err.shouldClose) {
@@ -186,7 +221,7 @@ async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<AP
           endpoint,
           connectionId,
           command,
-          wsFailure('Internal server error', HttpStatusCode.InternalServerError)
+          wsFailure('Internal server error', HttpStatusCode.InternalServerError, undefined, requestId)
         );
       }
     } catch (sendError) {
@@ -198,10 +233,11 @@ async function handleMessage(event: APIGatewayProxyWebsocketEventV2): Promise<AP
 }
 
 /**
- * Main WebSocket Lambda handler
- * Routes to appropriate handler based on route key
+ * Routes a WebSocket event to the appropriate handler based on route key
  */
-export const handler = async (event: APIGatewayProxyWebsocketEventV2): Promise<APIGatewayProxyStructuredResultV2> => {
+const dispatchWebSocketEvent = async (
+  event: APIGatewayProxyWebsocketEventV2
+): Promise<APIGatewayProxyStructuredResultV2> => {
   const routeKey = event.requestContext.routeKey;
 
   try {
@@ -238,3 +274,19 @@ export const handler = async (event: APIGatewayProxyWebsocketEventV2): Promise<A
     return failure(msg, HttpStatusCode.InternalServerError);
   }
 };
+
+// serverless-offline does not run the scheduled connectionSweeper function: sweep from the router process instead
+if (config.isOffline) {
+  connectionSweeper.init();
+}
+
+/**
+ * Main WebSocket Lambda handler
+ * Binds the event's correlation ID (API Gateway request ID, or connection ID) to the whole
+ * invocation: log lines, core API calls and the `correlationId` of response frames.
+ * Also binds the connection origin, checked against the allowlist of the shareable it authenticates with.
+ */
+export const handler = (event: APIGatewayProxyWebsocketEventV2): Promise<APIGatewayProxyStructuredResultV2> =>
+  withCorrelationId(resolveWebSocketCorrelationId(event), () =>
+    withRequestOrigin(getHandshakeOrigin(event), () => dispatchWebSocketEvent(event))
+  );